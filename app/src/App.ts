@@ -15,7 +15,9 @@ import WebFont from "webfontloader"
 import { ChartManager } from "./chart/ChartManager"
 import { GameTypeRegistry } from "./chart/gameTypes/GameTypeRegistry"
 import { NoteskinRegistry } from "./chart/gameTypes/noteskin/NoteskinRegistry"
+import { registerImportedNoteskins } from "./chart/gameTypes/noteskin/StepManiaNoteskin"
 import { Chart } from "./chart/sm/Chart"
+import { SIMFILE_EXT } from "./data/FileData"
 import { ContextMenuPopup } from "./gui/element/ContextMenu"
 import { MenubarManager } from "./gui/element/MenubarManager"
 import { WaterfallManager } from "./gui/element/WaterfallManager"
@@ -241,6 +243,7 @@ export class App {
     }
 
     FileHandler.initFileSystem().then(() => {
+      registerImportedNoteskins()
       if (Flags.url) {
         this.chartManager.loadSM(Flags.url).then(() => {
           const sm = this.chartManager.loadedSM
@@ -414,8 +417,8 @@ export class App {
       } else {
         FileHandler.handleDropEvent(event).then(folder => {
           const dirWindow = new DirectoryWindow(this, {
-            title: "Select an sm/ssc file...",
-            accepted_file_types: [".sm", ".ssc"],
+            title: "Select an sm/ssc/osu/dwi file...",
+            accepted_file_types: SIMFILE_EXT,
             disableClose: true,
             callback: (path: string) => {
               this.chartManager.loadSM(path)
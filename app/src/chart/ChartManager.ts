@@ -22,24 +22,31 @@ import {
   encodeNotes,
   encodeTempo,
 } from "../util/Ascii85"
+import { BeatMap } from "../util/BeatTracker"
 import { EventHandler } from "../util/EventHandler"
 import { Flags } from "../util/Flags"
 import { Keybinds } from "../util/Keybinds"
-import { clamp } from "../util/Math"
+import { bsearch, bsearchEarliest, clamp } from "../util/Math"
 import { Options } from "../util/Options"
 import { ParityGenerator } from "../util/ParityGenerator"
 import { basename, dirname, extname } from "../util/Path"
 import { tpsUpdate } from "../util/Performance"
 import { RecentFileHandler } from "../util/RecentFileHandler"
-import {
-  bsearch,
-  bsearchEarliest,
-  compareObjects,
-  getNoteEnd,
-} from "../util/Util"
+import { compareObjects } from "../util/Util"
 import { FileHandler } from "../util/file-handler/FileHandler"
 import { ChartRenderer } from "./ChartRenderer"
 import { ChartAudio } from "./audio/ChartAudio"
+import { KeysoundPlayer } from "./audio/KeysoundPlayer"
+import { dwiToSM, simfileToDWI } from "./convert/DWIConverter"
+import { simfileToLegacySM } from "./convert/LegacySMConverter"
+import {
+  chartToOsu,
+  getOsuFileName,
+  isManiaBeatmap,
+  osuToSSC,
+  parseOsu,
+} from "./convert/OsuConverter"
+import { GameLogicRegistry } from "./gameTypes/GameLogicRegistry"
 import { GameTypeRegistry } from "./gameTypes/GameTypeRegistry"
 import { NoteskinRegistry } from "./gameTypes/noteskin/NoteskinRegistry"
 import { GameplayStats } from "./play/GameplayStats"
@@ -53,6 +60,7 @@ import {
   PartialHoldNotedataEntry,
   PartialNotedata,
   PartialNotedataEntry,
+  getNoteEnd,
   isHoldNote,
 } from "./sm/NoteTypes"
 import { Simfile } from "./sm/Simfile"
@@ -102,6 +110,7 @@ export enum EditTimingMode {
   Off,
   Edit,
   Add,
+  Tap,
 }
 
 export class ChartManager {
@@ -127,6 +136,7 @@ export class ChartManager {
     src: mine,
     volume: 0.5,
   })
+  keysounds = new KeysoundPlayer(this)
 
   loadedSM?: Simfile
   smPath = ""
@@ -156,6 +166,7 @@ export class ChartManager {
   private lastMetronomeMeasure = -1
 
   private lastSong: string | null = null
+  private parityTimeout?: NodeJS.Timeout
 
   private mode: EditMode = EditMode.Edit
   private lastMode: EditMode = EditMode.Edit
@@ -167,10 +178,19 @@ export class ChartManager {
   private shiftPressed = 0
 
   private virtualClipboard = ""
+  // The clipboard format can't store notemods, keysounds or parity
+  // overrides, so keep them here for notes pasted from this editor
+  private clipboardExtras = new Map<
+    string,
+    Pick<PartialNotedataEntry, "notemods" | "keysounds" | "parityOverride">
+  >()
 
   startRegion?: number
   endRegion?: number
 
+  // Tracked beats shown on the notefield before they are applied
+  beatMapPreview?: BeatMap
+
   gameStats?: GameplayStats
 
   constructor(app: App) {
@@ -435,16 +455,18 @@ export class ChartManager {
         if (
           this.mode != EditMode.Record &&
           this.chartAudio.isPlaying() &&
-          this.loadedChart.gameType.gameLogic.shouldAssistTick(
-            notedata[this.noteIndex]
-          )
+          GameLogicRegistry.getGameLogic(
+            this.loadedChart.gameType
+          ).shouldAssistTick(notedata[this.noteIndex])
         ) {
-          if (this.mode != EditMode.Play)
+          if (this.mode != EditMode.Play) {
             this.chartView.doJudgement(
               notedata[this.noteIndex],
               0,
               TIMING_WINDOW_AUTOPLAY
             )
+            this.keysounds.play(notedata[this.noteIndex])
+          }
           if (
             !hasPlayedAssistTick &&
             Options.audio.assistTick &&
@@ -486,7 +508,7 @@ export class ChartManager {
       }
       // Update the game logic
       if (this.mode == EditMode.Play) {
-        this.loadedChart.gameType.gameLogic.update(this)
+        GameLogicRegistry.getGameLogic(this.loadedChart.gameType).update(this)
       }
       this.updateSoundProperties()
       tpsUpdate()
@@ -506,6 +528,11 @@ export class ChartManager {
         this.loadedChart.recalculateStats()
         EventHandler.emit("chartModifiedAfter")
       }
+      // Analyzing is slow, so wait until edits settle
+      if (Options.chart.showParity) {
+        clearTimeout(this.parityTimeout)
+        this.parityTimeout = setTimeout(() => this.updateParity(), 200)
+      }
     })
 
     window.addEventListener(
@@ -699,6 +726,7 @@ export class ChartManager {
       this.smPath = ""
       this.loadedSM = undefined
       this.chartAudio.stop()
+      this.keysounds.load(true)
       this.noChartTextA.visible = false
       this.noChartTextB.visible = false
       this.chartView?.destroy({ children: true })
@@ -725,16 +753,34 @@ export class ChartManager {
       return
     }
     const smFile = await smHandle.getFile()
-    this.loadedSM = new Simfile(smFile)
+    const fileType = extname(this.smPath).toLowerCase()
+    if (fileType == ".osu" || fileType == ".dwi") {
+      const imported =
+        fileType == ".osu"
+          ? await this.importOsu(smFile)
+          : await this.importDWI(smFile)
+      if (!imported) {
+        this.smPath = ""
+        this.app.windowManager.openWindow(new InitialWindow(this.app))
+        this.loadingText.visible = false
+        return
+      }
+      this.loadedSM = imported
+    } else {
+      this.loadedSM = new Simfile(smFile)
+    }
 
     await this.loadedSM.loaded
 
     this.loadingText.visible = false
 
+    this.reportDiagnostics()
+
     this.noChartTextA.visible = true
     this.noChartTextB.visible = true
     this.editTimingMode = EditTimingMode.Off
 
+    this.keysounds.load(true)
     EventHandler.emit("smLoaded")
     await this.loadChart()
     EventHandler.emit("smLoadedAfter")
@@ -743,6 +789,225 @@ export class ChartManager {
     RecentFileHandler.addSM(this.smPath, this.loadedSM)
   }
 
+  /**
+   * Converts an osu!mania beatmap into a simfile. Other difficulties of the
+   * same song in the folder are imported too. The simfile is saved as an .ssc
+   * next to the beatmap.
+   *
+   * @private
+   * @param {File} file
+   * @return {*}  {(Promise<Simfile | undefined>)}
+   * @memberof ChartManager
+   */
+  private async importOsu(file: File): Promise<Simfile | undefined> {
+    const beatmap = parseOsu(await file.text())
+    if (!isManiaBeatmap(beatmap)) {
+      WaterfallManager.createFormatted(
+        file.name + " is not an osu!mania beatmap",
+        "error"
+      )
+      return
+    }
+    const dir = this.getSongDirectory()
+    const beatmaps = [beatmap]
+    for (const handle of await FileHandler.getDirectoryFiles(dir)) {
+      if (handle.name == file.name || extname(handle.name) != ".osu") continue
+      const other = parseOsu(await (await handle.getFile()).text())
+      if (
+        isManiaBeatmap(other) &&
+        other.sections.General?.["AudioFilename"] ==
+          beatmap.sections.General?.["AudioFilename"]
+      )
+        beatmaps.push(other)
+    }
+
+    // "Artist - Title (Creator) [Version].osu" -> "Artist - Title (Creator).ssc"
+    const sscPath = await this.getImportPath(
+      file.name.replace(/( \[[^\]]*\])?\.osu$/i, ""),
+      ".ssc"
+    )
+    this.smPath = sscPath
+
+    WaterfallManager.create(
+      `Imported ${beatmaps.length} osu!mania ${beatmaps.length == 1 ? "difficulty" : "difficulties"}. Saving will create ${basename(sscPath)}`
+    )
+    return new Simfile(new File([osuToSSC(beatmaps)], basename(sscPath)))
+  }
+
+  /**
+   * Converts a DWI file into a simfile, which is saved as an .sm next to it.
+   *
+   * @private
+   * @param {File} file
+   * @return {*}  {Promise<Simfile>}
+   * @memberof ChartManager
+   */
+  private async importDWI(file: File): Promise<Simfile> {
+    const { data, diagnostics } = dwiToSM(await file.text())
+    const smPath = await this.getImportPath(basename(file.name, ".dwi"), ".sm")
+    this.smPath = smPath
+    WaterfallManager.create(
+      `Imported ${file.name}. Saving will create ${basename(smPath)}`
+    )
+    const sm = new Simfile(new File([data], basename(smPath)))
+    await sm.loaded
+    // Line numbers should point into the .dwi, not the converted file
+    sm.diagnostics = diagnostics.concat(
+      sm.diagnostics.filter(diagnostic => diagnostic.severity == "error")
+    )
+    return sm
+  }
+
+  /**
+   * Returns a path in the song folder for a converted simfile that doesn't
+   * collide with an existing .sm or .ssc.
+   *
+   * @private
+   * @param {string} baseName
+   * @param {(".sm" | ".ssc")} ext
+   * @return {*}  {Promise<string>}
+   * @memberof ChartManager
+   */
+  private async getImportPath(
+    baseName: string,
+    ext: ".sm" | ".ssc"
+  ): Promise<string> {
+    const dir = this.getSongDirectory()
+    let name = baseName
+    for (let i = 2; ; i++) {
+      if (
+        !(await FileHandler.hasFile(dir + "/" + name + ".sm")) &&
+        !(await FileHandler.hasFile(dir + "/" + name + ".ssc"))
+      )
+        return dir + "/" + name + ext
+      name = `${baseName} (${i})`
+    }
+  }
+
+  private getSongDirectory(): string {
+    if (window.nw)
+      return window.nw.require("path").dirname(this.smPath) as string
+    return dirname(this.smPath)
+  }
+
+  /**
+   * Exports the current chart as an osu!mania beatmap next to the simfile.
+   *
+   * @memberof ChartManager
+   */
+  async exportOsu() {
+    if (!this.loadedChart) return
+    const { data, warnings } = chartToOsu(this.loadedChart)
+    const fileName = getOsuFileName(this.loadedChart)
+    const path = this.getSongDirectory() + "/" + fileName
+    try {
+      await FileHandler.writeFile(path, data)
+    } catch (err) {
+      WaterfallManager.createFormatted(
+        "Failed to export osu! beatmap: " + (err as Error).message,
+        "error"
+      )
+      return
+    }
+    warnings.forEach(warning =>
+      WaterfallManager.createFormatted(warning, "warn")
+    )
+    WaterfallManager.create("Exported " + fileName)
+  }
+
+  /**
+   * Exports the loaded simfile as a .dwi next to it. Charts and timing that
+   * DWI can't represent are skipped with a warning.
+   *
+   * @memberof ChartManager
+   */
+  async exportDWI() {
+    if (!this.loadedSM) return
+    const { data, warnings } = simfileToDWI(this.loadedSM)
+    const fileName = basename(this.smPath).replace(/\.(sm|ssc)$/i, "") + ".dwi"
+    try {
+      await FileHandler.writeFile(
+        this.getSongDirectory() + "/" + fileName,
+        data
+      )
+    } catch (err) {
+      WaterfallManager.createFormatted(
+        "Failed to export DWI file: " + (err as Error).message,
+        "error"
+      )
+      return
+    }
+    warnings.forEach(warning =>
+      WaterfallManager.createFormatted(warning, "warn")
+    )
+    WaterfallManager.create("Exported " + fileName)
+  }
+
+  /**
+   * Exports the loaded simfile as .sm files for engines without chart timing.
+   * Chart timing is folded into the simfile timing, and charts with different
+   * timing are written to separate files.
+   *
+   * @memberof ChartManager
+   */
+  async exportLegacySM() {
+    if (!this.loadedSM) return
+    const baseName = basename(this.smPath).replace(/\.(sm|ssc)$/i, "")
+    const { files, warnings } = simfileToLegacySM(this.loadedSM, baseName)
+    try {
+      for (const file of files) {
+        await FileHandler.writeFile(
+          this.getSongDirectory() + "/" + file.fileName,
+          file.data
+        )
+      }
+    } catch (err) {
+      WaterfallManager.createFormatted(
+        "Failed to export legacy SM file: " + (err as Error).message,
+        "error"
+      )
+      return
+    }
+    warnings.forEach(warning =>
+      WaterfallManager.createFormatted(warning, "warn")
+    )
+    WaterfallManager.create(
+      "Exported " +
+        (files.length == 1 ? files[0].fileName : files.length + " SM files")
+    )
+  }
+
+  /**
+   * Shows the problems found while parsing the loaded simfile.
+   * Errors are shown individually, warnings are summarized.
+   *
+   * @private
+   * @memberof ChartManager
+   */
+  private reportDiagnostics() {
+    if (!this.loadedSM) return
+    const diagnostics = this.loadedSM.diagnostics
+    diagnostics
+      .filter(diagnostic => diagnostic.severity == "error")
+      .forEach(diagnostic =>
+        WaterfallManager.createFormatted(diagnostic.message, "warn")
+      )
+    const warnings = diagnostics.filter(
+      diagnostic => diagnostic.severity == "warn"
+    )
+    if (warnings.length == 1) {
+      WaterfallManager.createFormatted(warnings[0].message, "warn")
+    } else if (warnings.length > 1) {
+      WaterfallManager.createFormatted(
+        warnings.length +
+          " problems found while parsing " +
+          basename(this.smPath) +
+          ". See Chart > Load diagnostics for details.",
+        "warn"
+      )
+    }
+  }
+
   /**
    * Loads the specified chart. If no chart is loaded, the chart with the highest difficulty is loaded.
    *
@@ -848,20 +1113,37 @@ export class ChartManager {
     EventHandler.emit("audioLoaded")
     EventHandler.emit("chartModified")
 
-    if (this.loadedChart.gameType.id == "dance-single") {
+    if (ParityGenerator.isSupported(this.loadedChart.gameType.id)) {
       window.Parity = new ParityGenerator(
-        this.app,
+        this.loadedChart,
         this.loadedChart.gameType.id
       )
     } else {
       window.Parity = undefined
     }
+    this.updateParity()
 
     if (Flags.autoPlay) {
       this.playPause()
     }
   }
 
+  /**
+   * Analyzes the foot parity of the loaded chart if parity is shown,
+   * otherwise clears it.
+   *
+   * @memberof ChartManager
+   */
+  updateParity() {
+    clearTimeout(this.parityTimeout)
+    if (!this.loadedChart) return
+    if (Options.chart.showParity && window.Parity) {
+      window.Parity.analyze()
+      return
+    }
+    this.loadedChart.getNotedata().forEach(note => (note.parity = undefined))
+  }
+
   /**
    * Loads the audio of the current chart.
    *
@@ -1475,7 +1757,7 @@ export class ChartManager {
         if (note.second < this.time) note.gameplay!.hasHit = true
         else break
       }
-      this.loadedChart.gameType.gameLogic.startPlay(this)
+      GameLogicRegistry.getGameLogic(this.loadedChart.gameType).startPlay(this)
       this.gameStats = new GameplayStats(this)
       this.widgetManager.startPlay()
       this.chartAudio.seek(Math.max(0, this.time) - 1)
@@ -1500,8 +1782,16 @@ export class ChartManager {
   judgeCol(col: number) {
     if (!this.loadedChart || !this.chartView) return
     if (this.mode == EditMode.Play)
-      this.loadedChart.gameType.gameLogic.keyDown(this, col)
-    else if (this.mode == EditMode.Record) {
+      GameLogicRegistry.getGameLogic(this.loadedChart.gameType).keyDown(
+        this,
+        col
+      )
+    else if (
+      this.mode == EditMode.Record &&
+      this.editTimingMode == EditTimingMode.Tap
+    ) {
+      EventHandler.emit("timingTap", this.time + Options.play.offset)
+    } else if (this.mode == EditMode.Record) {
       const tapBeat = this.loadedChart.getBeatFromSeconds(
         this.time + Options.play.offset
       )
@@ -1520,10 +1810,29 @@ export class ChartManager {
   judgeColUp(col: number) {
     if (!this.loadedChart || !this.chartView) return
     if (this.mode == EditMode.Play)
-      this.loadedChart.gameType.gameLogic.keyUp(this, col)
+      GameLogicRegistry.getGameLogic(this.loadedChart.gameType).keyUp(this, col)
     else if (this.mode == EditMode.Record) this.endEditing(col)
   }
 
+  /**
+   * Replaces the simfile BPMs and offset with the given beat map.
+   *
+   * @param {BeatMap} beatMap
+   * @memberof ChartManager
+   */
+  applyBeatMap(beatMap: BeatMap) {
+    if (!this.loadedSM) return
+    this.loadedSM.timingData.replaceBPMs(
+      beatMap.bpms.map(bpm => ({ type: "BPMS", ...bpm })),
+      beatMap.offset
+    )
+    if (this.loadedChart?.timingData.isPropertyChartSpecific("BPMS"))
+      WaterfallManager.createFormatted(
+        "This chart has its own BPMs, so it doesn't use the new BPMs",
+        "warn"
+      )
+  }
+
   /**
    * Saves the current chart to disk.
    *
@@ -1532,6 +1841,11 @@ export class ChartManager {
   async save() {
     if (!this.loadedSM) return
 
+    // Only the open chart is kept up to date while editing
+    Object.values(this.loadedSM.charts)
+      .flat()
+      .forEach(chart => chart.recalculateStats())
+
     let smPath
     let sscPath
     if (window.nw) {
@@ -1549,27 +1863,38 @@ export class ChartManager {
       sscPath = dir + "/" + fileName + ".ssc"
     }
 
+    // Split timing can only be saved to a single .sm if every chart ends up
+    // with the same timing
+    const legacy = this.loadedSM.usesChartTiming()
+      ? simfileToLegacySM(this.loadedSM, basename(smPath, ".sm"))
+      : undefined
+    const legacyFile = legacy?.files.length == 1 ? legacy.files[0] : undefined
+
     let error: string | null = null
     if (
-      !this.loadedSM.usesChartTiming() &&
-      (await FileHandler.getFileHandle(smPath))
+      (!legacy || legacyFile) &&
+      (extname(this.smPath) == ".sm" ||
+        (await FileHandler.getFileHandle(smPath)))
     ) {
-      await FileHandler.writeFile(smPath, this.loadedSM.serialize("sm")).catch(
-        err => {
-          const message = err.message
-          if (!message.includes(errors.GONE[0])) {
-            error = message
-          }
+      await FileHandler.writeFile(
+        smPath,
+        legacyFile?.data ??
+          this.loadedSM.serialize("sm", Options.general.preserveFormatting)
+      ).catch(err => {
+        const message = err.message
+        if (!message.includes(errors.GONE[0])) {
+          error = message
         }
-      )
+      })
     }
     if (
       this.loadedSM.requiresSSC() ||
+      extname(this.smPath) == ".ssc" ||
       (await FileHandler.getFileHandle(sscPath))
     ) {
       await FileHandler.writeFile(
         sscPath,
-        this.loadedSM.serialize("ssc")
+        this.loadedSM.serialize("ssc", Options.general.preserveFormatting)
       ).catch(err => {
         const message = err.message
         if (!message.includes(errors.GONE[0])) {
@@ -1578,9 +1903,13 @@ export class ChartManager {
       })
     }
     if (error == null) {
-      if (this.loadedSM.usesChartTiming()) {
+      if (legacy && !legacyFile) {
+        WaterfallManager.create(
+          "Saved. No SM file since charts use different timing, use Export legacy SM to write one per chart."
+        )
+      } else if (legacy && legacy.warnings.length > 0) {
         WaterfallManager.create(
-          "Saved. No SM file since split timing was used."
+          "Saved. Some split timing had to be approximated in the SM file."
         )
       } else {
         WaterfallManager.create("Saved")
@@ -1869,6 +2198,49 @@ export class ChartManager {
     }
   }
 
+  /**
+   * Sets the keysound of every selected note.
+   *
+   * @param {number} [index] - The index into #KEYSOUNDS. Removes the keysound if undefined.
+   * @memberof ChartManager
+   */
+  setSelectionKeysound(index?: number) {
+    this.modifySelection(note => {
+      if (index === undefined) delete note.keysounds
+      else note.keysounds = index.toString()
+      return note
+    })
+  }
+
+  /**
+   * Sets the notemods of every selected note.
+   *
+   * @param {string} mods - The mods to set. Removes the mods if empty.
+   * @memberof ChartManager
+   */
+  setSelectionNotemods(mods: string) {
+    this.modifySelection(note => {
+      if (mods == "") delete note.notemods
+      else note.notemods = mods
+      return note
+    })
+  }
+
+  /**
+   * Forces the foot used by the parity generator for every selected note.
+   *
+   * @param {string} [foot] - One of L, l, R, r. Removes the override if undefined.
+   * @memberof ChartManager
+   */
+  setSelectionParity(foot?: string) {
+    this.modifySelection(note => {
+      if (note.type == "Mine") return note
+      if (foot === undefined) delete note.parityOverride
+      else note.parityOverride = foot
+      return note
+    })
+  }
+
   modifySelection(modify: (note: NotedataEntry) => PartialNotedataEntry) {
     if (!this.loadedChart) return
     const selectionNotes = this.selection.notes
@@ -2060,8 +2432,10 @@ export class ChartManager {
     const notes = decodeNotes(data)
     if (!notes) return false
     if (notes.length == 0) return false
+    const extras = data == this.virtualClipboard ? this.clipboardExtras : null
     this.insertNotes(
       notes.map(note => {
+        Object.assign(note, extras?.get(this.getClipboardKey(note)))
         note.beat += this.beat
         note.beat = Math.round(note.beat * 48) / 48
         return note
@@ -2198,6 +2572,10 @@ export class ChartManager {
     return true
   }
 
+  private getClipboardKey(note: PartialNotedataEntry) {
+    return Math.round(note.beat * 48) + "-" + note.col
+  }
+
   copy(): string | undefined {
     if (this.selection.notes.length != 0) {
       const firstBeat = Math.min(...this.selection.notes.map(note => note.beat))
@@ -2212,6 +2590,20 @@ export class ChartManager {
         })
       const encoded = encodeNotes(notes)
       this.virtualClipboard = encoded
+      this.clipboardExtras.clear()
+      for (const note of notes) {
+        if (
+          note.notemods === undefined &&
+          note.keysounds === undefined &&
+          note.parityOverride === undefined
+        )
+          continue
+        this.clipboardExtras.set(this.getClipboardKey(note), {
+          notemods: note.notemods,
+          keysounds: note.keysounds,
+          parityOverride: note.parityOverride,
+        })
+      }
       return encoded
     } else if (this.eventSelection.timingEvents.length != 0) {
       const firstBeat = Math.min(
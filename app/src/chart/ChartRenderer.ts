@@ -7,10 +7,12 @@ import {
 } from "pixi.js"
 import { ContextMenuPopup } from "../gui/element/ContextMenu"
 import { Flags } from "../util/Flags"
+import { bsearch } from "../util/Math"
 import { Options } from "../util/Options"
-import { bsearch, isRightClick } from "../util/Util"
+import { isRightClick } from "../util/Util"
 import { ChartManager, EditMode, EditTimingMode } from "./ChartManager"
 import { BarlineContainer } from "./component/edit/BarlineContainer"
+import { BeatMapPreviewContainer } from "./component/edit/BeatMapPreviewContainer"
 import { PreviewAreaContainer } from "./component/edit/PreviewAreaContainer"
 import { ScrollDebug } from "./component/edit/ScrollDebug"
 import { SelectionAreaContainer } from "./component/edit/SelectionAreaContainer"
@@ -52,6 +54,7 @@ export class ChartRenderer extends Container<ChartRendererComponent> {
 
   private readonly waveform: Waveform
   private readonly barlines: BarlineContainer
+  private readonly beatMapPreview: BeatMapPreviewContainer
   private readonly timingAreas: TimingAreaContainer
   private readonly timingTracks: TimingTrackContainer
   private readonly selectedEvents: SelectionTimingEventContainer
@@ -74,6 +77,7 @@ export class ChartRenderer extends Container<ChartRendererComponent> {
 
     this.waveform = new Waveform(this)
     this.barlines = new BarlineContainer(this)
+    this.beatMapPreview = new BeatMapPreviewContainer(this)
     this.timingAreas = new TimingAreaContainer(this)
     this.timingTracks = new TimingTrackContainer(this)
     this.selectedEvents = new SelectionTimingEventContainer(this)
@@ -90,6 +94,7 @@ export class ChartRenderer extends Container<ChartRendererComponent> {
     this.addChild(
       this.waveform,
       this.barlines,
+      this.beatMapPreview,
       this.timingAreas,
       this.previewArea,
       this.selectionArea,
@@ -1171,6 +1176,10 @@ export class ChartRenderer extends Container<ChartRendererComponent> {
     return this.notefield
   }
 
+  getWaveform() {
+    return this.waveform
+  }
+
   swapNoteskin(name: string) {
     Options.chart.noteskin.name = name
     Options.chart.lastNoteskins[this.chart.gameType.id] = name
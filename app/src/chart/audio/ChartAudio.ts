@@ -461,7 +461,10 @@ export class ChartAudio {
     this._updateListeners.forEach(listener => listener())
   }
 
-  private async decodeData(data?: ArrayBuffer): Promise<AudioBuffer | void> {
+  private async decodeData(
+    data?: ArrayBuffer,
+    type = this.type
+  ): Promise<AudioBuffer | void> {
     return new Promise((resolve, reject) => {
       if (!data) {
         resolve()
@@ -471,7 +474,7 @@ export class ChartAudio {
         try {
           resolve(await this._audioContext.decodeAudioData(data))
         } catch (e) {
-          if (this.type == ".ogg") {
+          if (type == ".ogg") {
             // attempt to decode with ogg
             const oggdec = (await import("../../util/OggDec")).default
             try {
@@ -523,6 +526,38 @@ export class ChartAudio {
     }
   }
 
+  /**
+   * Decodes a sample (e.g. a keysound) so it can be played with playSample.
+   *
+   * @param {ArrayBuffer} data
+   * @param {string} [type] - The file extension of the sample.
+   * @return {*}  {Promise<AudioBuffer | undefined>}
+   * @memberof ChartAudio
+   */
+  async decodeSample(
+    data: ArrayBuffer,
+    type?: string
+  ): Promise<AudioBuffer | undefined> {
+    return (await this.decodeData(data, type ?? "")) ?? undefined
+  }
+
+  /**
+   * Plays a sample on top of this audio. The sample follows the volume and
+   * playback rate of this audio.
+   *
+   * @param {AudioBuffer} buffer
+   * @memberof ChartAudio
+   */
+  playSample(buffer: AudioBuffer) {
+    if (this._destroyed) return
+    const source = this._audioContext.createBufferSource()
+    source.buffer = buffer
+    source.playbackRate.value = this._rate
+    source.connect(this._gainNode)
+    source.onended = () => source.disconnect()
+    source.start()
+  }
+
   /**
    * Sets the volume of this audio. 1 is 100%.
    *
@@ -0,0 +1,96 @@
+import { WaterfallManager } from "../../gui/element/WaterfallManager"
+import { Options } from "../../util/Options"
+import { extname } from "../../util/Path"
+import { FileHandler } from "../../util/file-handler/FileHandler"
+import { ChartManager } from "../ChartManager"
+import { PartialNotedataEntry } from "../sm/NoteTypes"
+
+/**
+ * Loads the samples listed in #KEYSOUNDS and plays them for notes that
+ * reference them. Samples are played through the current ChartAudio so they
+ * follow the song volume and rate.
+ */
+export class KeysoundPlayer {
+  private readonly chartManager: ChartManager
+  private files: string[] = []
+  private samples = new Map<string, AudioBuffer | null>()
+  private loadId = 0
+
+  constructor(chartManager: ChartManager) {
+    this.chartManager = chartManager
+  }
+
+  /**
+   * Loads the keysounds of the current simfile. Samples that were already
+   * loaded for the same simfile are reused.
+   *
+   * @param {boolean} [reset=false] - Discards all loaded samples first.
+   * @memberof KeysoundPlayer
+   */
+  async load(reset = false) {
+    const id = ++this.loadId
+    if (reset) this.samples.clear()
+    this.files = this.chartManager.loadedSM?.getKeysounds() ?? []
+    const smPath = this.chartManager.smPath
+    const missing: string[] = []
+    const failed: string[] = []
+    for (const file of this.files) {
+      if (this.samples.has(file)) continue
+      const handle = await FileHandler.getFileHandleRelativeTo(smPath, file)
+      if (id != this.loadId) return
+      if (!handle) {
+        missing.push(file)
+        this.samples.set(file, null)
+        continue
+      }
+      try {
+        const data = await (await handle.getFile()).arrayBuffer()
+        const buffer = await this.chartManager
+          .getAudio()
+          .decodeSample(data, extname(file).toLowerCase())
+        this.samples.set(file, buffer ?? null)
+      } catch {
+        failed.push(file)
+        this.samples.set(file, null)
+      }
+      if (id != this.loadId) return
+    }
+    if (missing.length > 0)
+      WaterfallManager.createFormatted(
+        "Couldn't find keysound(s): " + missing.join(", "),
+        "warn"
+      )
+    if (failed.length > 0)
+      WaterfallManager.createFormatted(
+        "Failed to load keysound(s): " + failed.join(", "),
+        "warn"
+      )
+  }
+
+  /**
+   * Returns the file a keysound index refers to.
+   *
+   * @param {string} index
+   * @return {*}  {(string | undefined)}
+   * @memberof KeysoundPlayer
+   */
+  getFile(index: string): string | undefined {
+    return this.files[parseInt(index)]
+  }
+
+  /**
+   * Plays the keysound of a note, if it has one.
+   *
+   * @param {PartialNotedataEntry} note
+   * @return {*}  {boolean} - Whether a keysound was played.
+   * @memberof KeysoundPlayer
+   */
+  play(note: PartialNotedataEntry): boolean {
+    if (!Options.audio.keysounds || note.keysounds === undefined) return false
+    const file = this.getFile(note.keysounds)
+    const buffer = file === undefined ? undefined : this.samples.get(file)
+    if (!buffer) return false
+    this.chartManager.getAudio().playSample(buffer)
+    return true
+  }
+}
@@ -1,15 +1,40 @@
-import { BitmapText, Container, Sprite, Texture } from "pixi.js"
+import {
+  BitmapText,
+  Container,
+  FederatedPointerEvent,
+  Rectangle,
+  Sprite,
+  Texture,
+} from "pixi.js"
 import { assignTint } from "../../../util/Color"
 import { DisplayObjectPool } from "../../../util/DisplayObjectPool"
 import { EventHandler } from "../../../util/EventHandler"
+import { roundDigit } from "../../../util/Math"
 import { Options } from "../../../util/Options"
+import { isRightClick } from "../../../util/Util"
+import { EditMode, EditTimingMode } from "../../ChartManager"
 import { ChartRenderer, ChartRendererComponent } from "../../ChartRenderer"
+import { BPMTimingEvent } from "../../sm/TimingTypes"
 
 const measureNumbers = {
   fontName: "Main",
   fontSize: 20,
   fill: ["#ffffff"],
 }
+
+// Distance from a barline that still grabs it, in pixels
+const GRAB_DISTANCE = 6
+// Distance from the cursor that dragged beats snap to transients from,
+// in pixels
+const PEAK_SNAP_DISTANCE = 24
+
+interface BeatDrag {
+  beat: number
+  second: number
+  // Insert a new BPM on the previous measure instead of changing the last BPM
+  insert: boolean
+}
+
 export class BarlineContainer
   extends Container
   implements ChartRendererComponent
@@ -31,6 +56,9 @@ export class BarlineContainer
       return text
     },
   })
+  private dragLine = new Sprite(Texture.WHITE)
+  private dragLabel = new BitmapText("", measureNumbers)
+  private drag?: BeatDrag
 
   constructor(renderer: ChartRenderer) {
     super()
@@ -45,11 +73,28 @@ export class BarlineContainer
     EventHandler.on("timeSigChanged", timeSig)
     this.on("destroyed", () => EventHandler.off("timeSigChanged", timeSig))
 
-    this.addChild(this.barlinePool, this.barlineLabelPool)
+    this.dragLine.tint = 0xff8a00
+    this.dragLine.anchor.set(0.5)
+    this.dragLine.height = 3
+    this.dragLine.visible = false
+    this.dragLabel.tint = 0xff8a00
+    this.dragLabel.anchor.set(0, 0.5)
+    this.dragLabel.visible = false
+
+    this.addChild(
+      this.barlinePool,
+      this.barlineLabelPool,
+      this.dragLine,
+      this.dragLabel
+    )
   }
 
   update(firstBeat: number, lastBeat: number) {
     this.visible = this.renderer.shouldDisplayBarlines()
+    // Beats can be dragged onto the audio while editing timing
+    this.interactiveChildren =
+      this.renderer.chartManager.editTimingMode == EditTimingMode.Edit &&
+      this.renderer.chartManager.getMode() == EditMode.Edit
 
     for (const [barBeat, isMeasure] of this.getBarlineBeats(
       firstBeat,
@@ -65,6 +110,16 @@ export class BarlineContainer
           visible: true,
         })
         barline.anchor.set(0.5)
+        const grabHeight = GRAB_DISTANCE / barline.scale.y
+        barline.hitArea = new Rectangle(
+          -barline.texture.width / 2,
+          -grabHeight,
+          barline.texture.width,
+          grabHeight * 2
+        )
+        barline.eventMode = "static"
+        barline.cursor = "ns-resize"
+        barline.on("pointerdown", event => this.startDrag(barBeat, event))
         this.barlineMap.set(barBeat, barline)
       }
       if (isMeasure && !this.barlineLabelMap.has(barBeat)) {
@@ -99,6 +154,103 @@ export class BarlineContainer
       }
       child.y = this.renderer.getYPosFromBeat(beat)
     }
+
+    this.updateDrag()
+  }
+
+  private startDrag(beat: number, event: FederatedPointerEvent) {
+    if (isRightClick(event) || beat <= 0) return
+    event.stopImmediatePropagation()
+    this.drag = {
+      beat,
+      second: this.renderer.chart.getSecondsFromBeat(beat),
+      insert: event.getModifierState("Shift"),
+    }
+    const moveHandler = (event: FederatedPointerEvent) => {
+      if (!this.drag) return
+      const y = this.renderer.toLocal(event.global).y
+      let second = this.renderer.getSecondFromYPos(y)
+      // Snap to the nearest transient in the audio unless Alt is held
+      if (!event.getModifierState("Alt")) {
+        const radius = Math.abs(
+          this.renderer.getSecondFromYPos(y + PEAK_SNAP_DISTANCE) - second
+        )
+        second =
+          this.renderer.getWaveform().getNearestPeak(second, radius) ?? second
+      }
+      this.drag.second = second
+    }
+    const mouseUp = () => {
+      this.renderer.off("pointermove", moveHandler)
+      this.renderer.off("pointerup", mouseUp)
+      this.dropDrag()
+    }
+    this.renderer.on("pointermove", moveHandler)
+    this.renderer.on("pointerup", mouseUp)
+  }
+
+  // Finds the BPM change the drag would make
+  private getDragTarget() {
+    if (!this.drag) return
+    const timingData = this.renderer.chart.timingData
+    const { beat, second, insert } = this.drag
+    const previous = timingData
+      .getTimingData("BPMS")
+      .filter(event => event.beat < beat)
+      .at(-1)
+    let start = previous?.beat ?? 0
+    if (insert) {
+      const measure = Math.ceil(roundDigit(timingData.getMeasure(beat), 3)) - 1
+      start = Math.max(start, timingData.getBeatFromMeasure(measure))
+    }
+    const bpm = timingData.getBPMForBeatAtSecond(start, beat, second)
+    if (bpm === undefined) return
+    return { start, bpm: roundDigit(bpm, 3) }
+  }
+
+  private dropDrag() {
+    const drag = this.drag
+    const target = this.getDragTarget()
+    this.drag = undefined
+    if (!drag || !target) return
+    const timingData = this.renderer.chart.timingData
+    const oldBPM = timingData.getEventAtBeat("BPMS", drag.beat)?.value
+    if (
+      Math.abs(drag.second - timingData.getSecondsFromBeat(drag.beat)) < 0.001
+    )
+      return
+
+    const isChartTiming = timingData.isPropertyChartSpecific("BPMS")
+    const events: (BPMTimingEvent & { isChartTiming: boolean })[] = [
+      { type: "BPMS", beat: target.start, value: target.bpm, isChartTiming },
+    ]
+    // Keep the tempo after the dragged beat when inserting a new BPM
+    if (
+      drag.insert &&
+      oldBPM !== undefined &&
+      oldBPM != target.bpm &&
+      timingData.getEventAtBeat("BPMS", drag.beat, false)?.beat != drag.beat
+    ) {
+      events.push({
+        type: "BPMS",
+        beat: drag.beat,
+        value: oldBPM,
+        isChartTiming,
+      })
+    }
+    timingData.insert(events)
+  }
+
+  private updateDrag() {
+    const target = this.getDragTarget()
+    this.dragLine.visible = this.dragLabel.visible = !!this.drag
+    if (!this.drag) return
+    const y = this.renderer.getYPosFromSecond(this.drag.second)
+    this.dragLine.width = this.renderer.chart.gameType.notefieldWidth + 128
+    this.dragLine.y = y
+    this.dragLabel.x = this.dragLine.width / 2 + 8
+    this.dragLabel.y = y
+    this.dragLabel.text = target ? `${target.bpm} BPM` : "Invalid"
   }
 
   private *getBarlineBeats(
@@ -0,0 +1,105 @@
+import { BitmapText, Container, Sprite, Texture } from "pixi.js"
+import { BeatMap } from "../../../util/BeatTracker"
+import { DisplayObjectPool } from "../../../util/DisplayObjectPool"
+import { roundDigit } from "../../../util/Math"
+import { ChartRenderer, ChartRendererComponent } from "../../ChartRenderer"
+
+const bpmLabels = {
+  fontName: "Main",
+  fontSize: 15,
+  fill: ["#ffffff"],
+}
+
+export class BeatMapPreviewContainer
+  extends Container
+  implements ChartRendererComponent
+{
+  private renderer: ChartRenderer
+  private beatMap?: BeatMap
+  private lineMap: Map<number, Sprite> = new Map()
+  private labelMap: Map<number, BitmapText> = new Map()
+  private linePool = new DisplayObjectPool({
+    create: () => {
+      const line = new Sprite(Texture.WHITE)
+      line.tint = 0x00a6ff
+      line.alpha = 0.6
+      line.anchor.set(0.5)
+      return line
+    },
+  })
+  private labelPool = new DisplayObjectPool({
+    create: () => {
+      const text = new BitmapText("", bpmLabels)
+      text.tint = 0x00a6ff
+      text.anchor.set(0, 0.5)
+      return text
+    },
+  })
+
+  constructor(renderer: ChartRenderer) {
+    super()
+    this.renderer = renderer
+    this.addChild(this.linePool, this.labelPool)
+  }
+
+  update(firstBeat: number, lastBeat: number) {
+    const beatMap = this.renderer.chartManager.beatMapPreview
+    if (beatMap !== this.beatMap) {
+      this.beatMap = beatMap
+      this.lineMap.clear()
+      this.labelMap.clear()
+      this.linePool.destroyAll()
+      this.labelPool.destroyAll()
+    }
+    this.visible = beatMap !== undefined
+    if (!beatMap) return
+
+    const chart = this.renderer.chart
+    const firstSecond = chart.getSecondsFromBeat(firstBeat)
+    const lastSecond = chart.getSecondsFromBeat(lastBeat)
+    const width = chart.gameType.notefieldWidth + 128
+    const bpms = new Map(beatMap.bpms.map(bpm => [bpm.beat, bpm.value]))
+
+    beatMap.beats.forEach((second, index) => {
+      if (second < firstSecond || second > lastSecond) return
+      if (!this.lineMap.has(index)) {
+        const line = this.linePool.createChild()
+        if (!line) return
+        Object.assign(line, { width, height: 3, visible: true })
+        this.lineMap.set(index, line)
+      }
+      const beat = index + beatMap.firstBeat
+      const bpm = index == 0 ? beatMap.bpms[0]?.value : bpms.get(beat)
+      if (bpm !== undefined && !this.labelMap.has(index)) {
+        const label = this.labelPool.createChild()
+        if (!label) return
+        Object.assign(label, {
+          x: width / 2 + 8,
+          text: roundDigit(bpm, 3).toString(),
+          visible: true,
+        })
+        this.labelMap.set(index, label)
+      }
+    })
+
+    for (const [index, line] of this.lineMap.entries()) {
+      const second = beatMap.beats[index]
+      if (second < firstSecond || second > lastSecond) {
+        this.lineMap.delete(index)
+        this.linePool.destroyChild(line)
+        continue
+      }
+      line.y = this.renderer.getYPosFromSecond(second)
+    }
+
+    for (const [index, label] of this.labelMap.entries()) {
+      const second = beatMap.beats[index]
+      if (second < firstSecond || second > lastSecond) {
+        this.labelMap.delete(index)
+        this.labelPool.destroyChild(label)
+        continue
+      }
+      label.y = this.renderer.getYPosFromSecond(second)
+    }
+  }
+}
@@ -20,6 +20,13 @@ import {
 } from "../../sm/TimingTypes"
 
 const MAX_ZOOM = 3500
+// Length of audio compared before and after a transient, in seconds
+const PEAK_WINDOW = 0.01
+// Distance between checked positions when searching for a transient
+const PEAK_HOP = 0.001
+// How much louder the audio has to get to count as a transient, as a part of
+// the loudest nearby level
+const MIN_PEAK_RISE = 0.1
 
 interface WaveformLine extends Sprite {
   lastUsed: number
@@ -188,6 +195,59 @@ export class Waveform extends Sprite implements ChartRendererComponent {
     this.scale.set(1 / Options.chart.zoom)
   }
 
+  /**
+   * Returns the second of the strongest transient near the given second,
+   * where the audio gets louder the most.
+   *
+   * @param {number} second
+   * @param {number} radius The distance to search in seconds
+   * @return {*}  {(number | undefined)}
+   * @memberof Waveform
+   */
+  getNearestPeak(second: number, radius: number): number | undefined {
+    const length = this.rawData[0]?.length ?? 0
+    if (length == 0) return undefined
+    const windowLength = Math.round(PEAK_WINDOW * this.sampleRate)
+    const hop = Math.max(1, Math.round(PEAK_HOP * this.sampleRate))
+    const start = clamp(
+      Math.floor((second - radius) * this.sampleRate) - windowLength,
+      0,
+      length
+    )
+    const end = clamp(
+      Math.ceil((second + radius) * this.sampleRate) + windowLength,
+      0,
+      length
+    )
+    if (end - start <= windowLength * 2) return undefined
+
+    // Running sum of the level of all channels
+    const sums = new Float64Array(end - start + 1)
+    for (let i = start; i < end; i++) {
+      let level = 0
+      for (const channel of this.rawData) level += Math.abs(channel[i])
+      sums[i - start + 1] = sums[i - start] + level / this.rawData.length
+    }
+    const getLevel = (from: number) =>
+      (sums[from - start + windowLength] - sums[from - start]) / windowLength
+
+    let best: number | undefined
+    let bestRise = 0
+    let maxLevel = 0
+    for (let i = start + windowLength; i + windowLength <= end; i += hop) {
+      const level = getLevel(i)
+      const rise = level - getLevel(i - windowLength)
+      maxLevel = Math.max(maxLevel, level)
+      if (rise > bestRise) {
+        best = i
+        bestRise = rise
+      }
+    }
+    if (best === undefined || bestRise < maxLevel * MIN_PEAK_RISE)
+      return undefined
+    return best / this.sampleRate
+  }
+
   private trackVariable<T>(get: () => T, onchange?: (value: T) => void) {
     this.trackedVariables.set(get, { value: get(), cb: onchange })
   }
@@ -1,15 +1,15 @@
 import { Container, Sprite, Texture } from "pixi.js"
 import { EventHandler } from "../../../util/EventHandler"
 import { Options } from "../../../util/Options"
-import { getNoteEnd } from "../../../util/Util"
 import { EditMode, EditTimingMode } from "../../ChartManager"
 import { TimingWindowCollection } from "../../play/TimingWindowCollection"
-import { isHoldNote, NotedataEntry } from "../../sm/NoteTypes"
+import { getNoteEnd, isHoldNote, NotedataEntry } from "../../sm/NoteTypes"
 import { HoldObject, Notefield, NoteWrapper } from "./Notefield"
 
 interface HighlightedNoteObject extends Container {
   selection: Sprite
   parity: Sprite
+  mods: Sprite
   wrapper: NoteWrapper
   lastActive: boolean
 }
@@ -82,13 +82,24 @@ export class NoteContainer extends Container {
         parity.width = objectBounds.width
         parity.height = objectBounds.height
         parity.alpha = 0
+
+        const mods = new Sprite(Texture.WHITE)
+        mods.anchor.set(0.5)
+        mods.width = 8
+        mods.height = 8
+        mods.angle = 45
+        mods.x = objectBounds.x + objectBounds.width - 6
+        mods.y = objectBounds.y + 6
+        mods.tint = 0xf272d2
+        mods.visible = false
         this.notefield.renderer.registerDragNote(container, note)
         container.wrapper = object
         container.selection = selection
         container.parity = parity
+        container.mods = mods
         container.lastActive = false
         this.arrowMap.set(note, container)
-        container.addChild(object, selection, parity)
+        container.addChild(object, selection, parity, mods)
         this.addChild(container)
       }
     }
@@ -169,7 +180,16 @@ export class NoteContainer extends Container {
           this.notefield.renderer.chartManager.removeNoteFromDragSelection(note)
         }
       }
-      container.parity.alpha = note.parity ? 0.4 : 0
+      container.mods.visible =
+        note.notemods !== undefined &&
+        Options.chart.drawIcons &&
+        this.notefield.renderer.chartManager.getMode() != EditMode.Play
+      // Feet set by hand stand out from the generated ones
+      container.parity.alpha = note.parity
+        ? note.parityOverride
+          ? 0.6
+          : 0.4
+        : 0
       container.parity.tint =
         note.parity !== undefined ? parityColors[note.parity] : 0xffffff
     }
@@ -1,4 +1,4 @@
-import { Container, Sprite, Texture } from "pixi.js"
+import { BitmapText, Container, Sprite, Texture } from "pixi.js"
 import { WaterfallManager } from "../../../gui/element/WaterfallManager"
 import { rgbtoHex } from "../../../util/Color"
 import { EventHandler } from "../../../util/EventHandler"
@@ -52,6 +52,7 @@ export type NotefieldObject = NoteObject | HoldObject
 export class NoteWrapper extends Container {
   object: NotefieldObject
   icon
+  keysound
   constructor(object: NotefieldObject) {
     super()
     this.object = object
@@ -62,7 +63,16 @@ export class NoteWrapper extends Container {
     this.icon.alpha = 0.8
     this.icon.visible = false
 
-    this.addChild(object, this.icon)
+    this.keysound = new BitmapText("", {
+      fontName: "Main",
+      fontSize: 12,
+    })
+    this.keysound.anchor.set(0, 0.5)
+    this.keysound.x = 34
+    this.keysound.alpha = 0.8
+    this.keysound.visible = false
+
+    this.addChild(object, this.icon, this.keysound)
 
     if (object.nf.noteskin === undefined) {
       EventHandler.on("noteskinLoaded", () => this.loadEventHandler())
@@ -75,8 +85,10 @@ export class NoteWrapper extends Container {
     this.object.nf.noteskin!.onUpdate(this, cr => {
       if (!Options.chart.drawIcons) {
         this.icon.visible = false
+        this.keysound.visible = false
         return
       }
+      this.updateKeysound(cr)
       if (
         this.object.nf.noteskinOptions?.hideIcons?.includes(
           this.object.note.type
@@ -91,6 +103,19 @@ export class NoteWrapper extends Container {
       }
     })
   }
+
+  private updateKeysound(cr: ChartRenderer) {
+    const index = this.object.note.keysounds
+    if (index === undefined || cr.chartManager.getMode() == EditMode.Play) {
+      this.keysound.visible = false
+      return
+    }
+    const file =
+      cr.chartManager.keysounds.getFile(index) ?? `Missing keysound ${index}`
+    const text = file.replace(/\.[^.]*$/, "")
+    if (this.keysound.text != text) this.keysound.text = text
+    this.keysound.visible = true
+  }
 }
 
 export class NoteObject extends Container {
@@ -0,0 +1,504 @@
+import { roundDigit } from "../../util/Math"
+import { GameTypeRegistry } from "../gameTypes/GameTypeRegistry"
+import { escapeMSD, tokenizeMSD, unescapeMSD } from "../sm/MSDTokenizer"
+import { ChartDifficulty } from "../sm/ChartTypes"
+import { PartialNotedataEntry, isHoldNote } from "../sm/NoteTypes"
+import { Simfile } from "../sm/Simfile"
+import { SimfileDiagnostic } from "../sm/SimfileTypes"
+
+export interface DWIConvertResult {
+  data: string
+  diagnostics: SimfileDiagnostic[]
+}
+
+export interface DWIExportResult {
+  data: string
+  warnings: string[]
+}
+
+type DWIPanel = "L" | "D" | "U" | "R" | "UL" | "UR"
+
+const DWI_CHARS: Record<string, DWIPanel[]> = {
+  "0": [],
+  "1": ["D", "L"],
+  "2": ["D"],
+  "3": ["D", "R"],
+  "4": ["L"],
+  "5": [],
+  "6": ["R"],
+  "7": ["U", "L"],
+  "8": ["U"],
+  "9": ["U", "R"],
+  A: ["U", "D"],
+  B: ["L", "R"],
+  C: ["UL"],
+  D: ["UR"],
+  E: ["L", "UL"],
+  F: ["UL", "D"],
+  G: ["UL", "U"],
+  H: ["UL", "R"],
+  I: ["L", "UR"],
+  J: ["D", "UR"],
+  K: ["U", "UR"],
+  L: ["UR", "R"],
+  M: ["UL", "UR"],
+}
+
+const DWI_GAME_TYPES: Record<string, { id: string; panels: DWIPanel[] }> = {
+  SINGLE: { id: "dance-single", panels: ["L", "D", "U", "R"] },
+  DOUBLE: { id: "dance-double", panels: ["L", "D", "U", "R"] },
+  COUPLE: { id: "dance-couple", panels: ["L", "D", "U", "R"] },
+  SOLO: { id: "dance-solo", panels: ["L", "UL", "D", "U", "UR", "R"] },
+}
+
+const DWI_DIFFICULTIES: Record<string, ChartDifficulty> = {
+  BEGINNER: "Beginner",
+  BASIC: "Easy",
+  ANOTHER: "Medium",
+  MANIAC: "Hard",
+  SMANIAC: "Challenge",
+}
+
+/** Rows per beat for each grouping bracket. The default is 8th notes. */
+const DWI_GROUPINGS: Record<string, number> = {
+  "(": 4,
+  "[": 6,
+  "{": 16,
+  "`": 48,
+}
+const DWI_GROUPING_CLOSE: Record<string, string> = {
+  "(": ")",
+  "[": "]",
+  "{": "}",
+  "`": "'",
+}
+const DWI_DEFAULT_RESOLUTION = 2
+
+/**
+ * Converts a .dwi file into the contents of an .sm file. DWI positions in
+ * #CHANGEBPM and #FREEZE are in 16th notes, and #GAP is the offset in ms.
+ *
+ * @export
+ * @param {string} data
+ * @return {*}  {DWIConvertResult}
+ */
+export function dwiToSM(data: string): DWIConvertResult {
+  const { properties, diagnostics } = tokenizeMSD(data)
+  const header: Record<string, string> = {}
+  const bpms: string[] = []
+  const stops: string[] = []
+  let offset = 0
+  let charts = ""
+
+  for (const prop of properties) {
+    const value = prop.params[0]?.trim() ?? ""
+    switch (prop.key) {
+      case "BPM":
+        bpms.unshift("0.000=" + parseFloat(value).toFixed(3))
+        break
+      case "CHANGEBPM":
+      case "FREEZE":
+        for (const change of value.split(",")) {
+          const [position, amount] = change.split("=").map(parseFloat)
+          if (!isFinite(position) || !isFinite(amount)) {
+            if (change.trim() == "") continue
+            diagnostics.push({
+              message: `Invalid #${prop.key} entry "${change.trim()}" at line ${prop.line}`,
+              severity: "warn",
+              line: prop.line,
+              column: prop.column,
+              property: prop.key,
+            })
+            continue
+          }
+          const beat = (position / 4).toFixed(3)
+          if (prop.key == "CHANGEBPM") bpms.push(beat + "=" + amount.toFixed(3))
+          else stops.push(beat + "=" + (amount / 1000).toFixed(3))
+        }
+        break
+      case "GAP":
+        offset = -parseFloat(value) / 1000 || 0
+        break
+      case "FILE":
+        header["MUSIC"] = value
+        break
+      case "SAMPLESTART":
+      case "SAMPLELENGTH":
+        header[prop.key] = parseDWITime(value) + ""
+        break
+      case "DISPLAYBPM":
+        header["DISPLAYBPM"] = value.replace("..", ":")
+        break
+      case "TITLE":
+      case "ARTIST":
+      case "GENRE":
+      case "CDTITLE":
+        // The header is written as .sm text, so the value stays escaped
+        header[prop.key] = escapeMSD(unescapeMSD(prop.value))
+        break
+      default:
+        if (prop.key in DWI_GAME_TYPES) {
+          try {
+            charts += convertChart(prop.key, prop.params)
+          } catch (error) {
+            diagnostics.push({
+              message:
+                (error instanceof Error ? error.message : String(error)) +
+                ` (chart at line ${prop.line})`,
+              severity: "error",
+              line: prop.line,
+              column: prop.column,
+              property: prop.key,
+            })
+          }
+        } else {
+          header[prop.key] = prop.value
+        }
+    }
+  }
+
+  let str = ""
+  for (const [key, value] of Object.entries(header))
+    str += `#${key}:${value};\n`
+  str += `#OFFSET:${offset.toFixed(3)};\n`
+  str += `#BPMS:${bpms.join(",\n")};\n`
+  str += `#STOPS:${stops.join(",\n")};\n\n`
+  str += charts
+  diagnostics.sort((a, b) => a.line - b.line || a.column - b.column)
+  return { data: str, diagnostics }
+}
+
+/**
+ * Converts every chart of the simfile that DWI can represent. Anything that
+ * is dropped or approximated is reported as a warning.
+ *
+ * @export
+ * @param {Simfile} sm
+ * @return {*}  {DWIExportResult}
+ */
+export function simfileToDWI(sm: Simfile): DWIExportResult {
+  const warnings: string[] = []
+  const timing = sm.timingData
+
+  let str = ""
+  str += `#TITLE:${escapeMSD(sm.properties.TITLE ?? "")};\n`
+  str += `#ARTIST:${escapeMSD(sm.properties.ARTIST ?? "")};\n`
+  if (sm.properties.GENRE) str += `#GENRE:${escapeMSD(sm.properties.GENRE)};\n`
+  if (sm.properties.CDTITLE)
+    str += `#CDTITLE:${escapeMSD(sm.properties.CDTITLE)};\n`
+  str += `#FILE:${sm.properties.MUSIC ?? ""};\n`
+
+  const bpms = timing.getTimingData("BPMS")
+  if (bpms.some(event => event.value <= 0))
+    warnings.push("Negative bpm changes can't be represented and were ignored")
+  const positiveBPMs = bpms.filter(event => event.value > 0)
+  str += `#BPM:${roundDigit(positiveBPMs[0]?.value ?? 120, 3)};\n`
+  str += `#GAP:${Math.round(-timing.getOffset() * 1000)};\n`
+  if (positiveBPMs.length > 1)
+    str += `#CHANGEBPM:${positiveBPMs
+      .slice(1)
+      .map(
+        event =>
+          roundDigit(event.beat * 4, 3) + "=" + roundDigit(event.value, 3)
+      )
+      .join(",")};\n`
+  const stops = timing.getTimingData("STOPS")
+  if (stops.some(event => event.value <= 0))
+    warnings.push("Negative stops can't be represented and were ignored")
+  if (stops.some(event => event.value > 0))
+    str += `#FREEZE:${stops
+      .filter(event => event.value > 0)
+      .map(
+        event =>
+          roundDigit(event.beat * 4, 3) +
+          "=" +
+          roundDigit(event.value * 1000, 3)
+      )
+      .join(",")};\n`
+  if (sm.properties.SAMPLESTART)
+    str += `#SAMPLESTART:${sm.properties.SAMPLESTART};\n`
+  if (sm.properties.SAMPLELENGTH)
+    str += `#SAMPLELENGTH:${sm.properties.SAMPLELENGTH};\n`
+  if (sm.other_properties["DISPLAYBPM"])
+    str += `#DISPLAYBPM:${sm.other_properties["DISPLAYBPM"].replace(":", "..")};\n`
+
+  for (const type of [
+    "DELAYS",
+    "WARPS",
+    "SPEEDS",
+    "SCROLLS",
+    "FAKES",
+    "TIMESIGNATURES",
+  ] as const) {
+    if (timing.getTimingData(type).length > 0)
+      warnings.push(
+        `${type} can't be represented in DWI files and were ignored`
+      )
+  }
+  str += "\n"
+
+  const used = new Set<string>()
+  for (const charts of Object.values(sm.charts)) {
+    for (const chart of charts) {
+      const name = `${chart.gameType.id} ${chart.difficulty}`
+      const style = Object.keys(DWI_GAME_TYPES).find(
+        key => DWI_GAME_TYPES[key].id == chart.gameType.id
+      )
+      const difficulty = Object.keys(DWI_DIFFICULTIES).find(
+        key => DWI_DIFFICULTIES[key] == chart.difficulty
+      )
+      if (!style || !difficulty || used.has(name)) {
+        warnings.push(
+          `Skipped ${name} (${chart.description || chart.meter}): ` +
+            (!style
+              ? "DWI doesn't support this game type"
+              : !difficulty
+                ? "DWI doesn't support edit charts"
+                : "DWI only allows one chart per difficulty")
+        )
+        continue
+      }
+      used.add(name)
+      if (chart.timingData.usesChartTiming())
+        warnings.push(`${name} uses chart timing, which was replaced`)
+
+      const skipped: Record<string, number> = {}
+      const notes = chart.getNotedata().filter(note => {
+        if (note.type == "Tap" || note.type == "Hold") return true
+        if (note.type == "Roll" || note.type == "Lift") {
+          skipped[note.type.toLowerCase() + "s were converted"] =
+            (skipped[note.type.toLowerCase() + "s were converted"] ?? 0) + 1
+          return true
+        }
+        skipped[note.type.toLowerCase() + "s were removed"] =
+          (skipped[note.type.toLowerCase() + "s were removed"] ?? 0) + 1
+        return false
+      })
+      for (const [reason, count] of Object.entries(skipped))
+        warnings.push(`${name}: ${count} ${reason}`)
+
+      const panels = DWI_GAME_TYPES[style].panels
+      const pads = chart.gameType.numCols / panels.length
+      const steps = []
+      for (let pad = 0; pad < pads; pad++) {
+        steps.push(
+          serializeSteps(
+            notes
+              .filter(
+                note =>
+                  note.col >= pad * panels.length &&
+                  note.col < (pad + 1) * panels.length
+              )
+              .map(note => ({ ...note, col: note.col - pad * panels.length })),
+            panels
+          )
+        )
+      }
+      str += `#${style}:${difficulty}:${chart.meter}:\n${steps.join(":\n")};\n\n`
+    }
+  }
+  return { data: str, warnings }
+}
+
+function parseDWITime(value: string) {
+  // Either plain seconds or mm:ss.xx
+  return roundDigit(
+    value
+      .split(":")
+      .map(part => parseFloat(part) || 0)
+      .reduce((total, part) => total * 60 + part, 0),
+    3
+  )
+}
+
+function convertChart(style: string, params: string[]) {
+  const { id, panels } = DWI_GAME_TYPES[style]
+  const gameType = GameTypeRegistry.getGameType(id)
+  if (!gameType) throw Error("Unknown step type " + id)
+  const difficulty = DWI_DIFFICULTIES[params[0]?.trim().toUpperCase()]
+  if (!difficulty) throw Error("Unknown chart difficulty " + params[0])
+  const meter = parseInt(params[1]) || 1
+  const pads = gameType.numCols / panels.length
+  const notes: PartialNotedataEntry[] = []
+  for (let pad = 0; pad < pads; pad++) {
+    const padSteps = params[2 + pad]
+    if (padSteps === undefined)
+      throw Error("Missing steps for pad " + (pad + 1))
+    notes.push(
+      ...parseSteps(padSteps, panels).map(note => ({
+        ...note,
+        col: note.col + pad * panels.length,
+      }))
+    )
+  }
+  notes.sort((a, b) => a.beat - b.beat || a.col - b.col)
+
+  let str = `//---------------${id} - ---------------\n`
+  str += "#NOTES:\n"
+  str += `     ${id}:\n`
+  str += `     :\n`
+  str += `     ${difficulty}:\n`
+  str += `     ${meter}:\n`
+  str += `     0,0,0,0,0:\n`
+  str += gameType.parser.serialize(notes, gameType) + ";\n\n"
+  return str
+}
+
+function parseSteps(steps: string, panels: DWIPanel[]) {
+  const notes: PartialNotedataEntry[] = []
+  const activeHolds: (PartialNotedataEntry | undefined)[] = []
+  let resolution = DWI_DEFAULT_RESOLUTION
+  let row = 0
+  let inJump = false
+
+  const getCols = (char: string) => {
+    const arrows = DWI_CHARS[char.toUpperCase()]
+    if (!arrows) throw Error(`Unknown DWI step "${char}"`)
+    return arrows.map(arrow => panels.indexOf(arrow)).filter(col => col != -1)
+  }
+
+  // Rows are counted in 192nds so that groupings can be mixed freely
+  const addRow = (char: string, holdChar?: string) => {
+    const beat = row / 48
+    const holdCols = holdChar ? getCols(holdChar) : []
+    for (const col of getCols(char)) {
+      const hold = activeHolds[col]
+      if (hold && isHoldNote(hold)) {
+        // The next step on a held arrow ends the hold
+        hold.hold = beat - hold.beat
+        activeHolds[col] = undefined
+        continue
+      }
+      if (holdCols.includes(col)) {
+        const note = { beat, col, type: "Hold" as const, hold: 0 }
+        activeHolds[col] = note
+        notes.push(note)
+      } else {
+        notes.push({ beat, col, type: "Tap" })
+      }
+    }
+  }
+
+  const chars = steps.replaceAll(/\s/g, "")
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i]
+    if (char in DWI_GROUPINGS) {
+      resolution = DWI_GROUPINGS[char]
+      continue
+    }
+    if (Object.values(DWI_GROUPING_CLOSE).includes(char)) {
+      resolution = DWI_DEFAULT_RESOLUTION
+      continue
+    }
+    if (char == "<") {
+      inJump = true
+      continue
+    }
+    if (char == ">") {
+      inJump = false
+      row += 48 / resolution
+      continue
+    }
+    let holdChar
+    if (chars[i + 1] == "!") {
+      holdChar = chars[i + 2]
+      i += 2
+    }
+    addRow(char, holdChar)
+    if (!inJump) row += 48 / resolution
+  }
+  // Holds that never end become taps
+  for (const hold of activeHolds) {
+    if (hold) Object.assign(hold, { type: "Tap", hold: undefined })
+  }
+  return notes.map(note => {
+    if (isHoldNote(note) && note.hold <= 0) {
+      const { hold: _, ...tap } = note
+      return { ...tap, type: "Tap" as const }
+    }
+    return note
+  })
+}
+
+function serializeSteps(
+  notes: PartialNotedataEntry[],
+  panels: DWIPanel[]
+): string {
+  // Collect every row that needs a step, including hold ends
+  const rows = new Map<number, { cols: number[]; holdCols: number[] }>()
+  const getRow = (beat: number) => {
+    const row = Math.round(beat * 48)
+    if (!rows.has(row)) rows.set(row, { cols: [], holdCols: [] })
+    return rows.get(row)!
+  }
+  for (const note of notes) {
+    const row = getRow(note.beat)
+    row.cols.push(note.col)
+    if (isHoldNote(note)) {
+      row.holdCols.push(note.col)
+      getRow(note.beat + note.hold).cols.push(note.col)
+    }
+  }
+  if (rows.size == 0) return "0"
+
+  const lastBeat = Math.floor(Math.max(...rows.keys()) / 48)
+  let str = ""
+  let resolution = DWI_DEFAULT_RESOLUTION
+  for (let beat = 0; beat <= lastBeat; beat++) {
+    const beatRows = [...rows.keys()].filter(
+      row => row >= beat * 48 && row < (beat + 1) * 48
+    )
+    const needed =
+      [DWI_DEFAULT_RESOLUTION, ...Object.values(DWI_GROUPINGS)].find(res =>
+        beatRows.every(row => row % (48 / res) == 0)
+      ) ?? 48
+    if (needed != resolution) {
+      if (resolution != DWI_DEFAULT_RESOLUTION)
+        str += DWI_GROUPING_CLOSE[getGrouping(resolution)]
+      if (needed != DWI_DEFAULT_RESOLUTION) str += getGrouping(needed)
+      resolution = needed
+    }
+    for (let i = 0; i < resolution; i++) {
+      const row = rows.get(beat * 48 + (i * 48) / resolution)
+      str += row ? getStepChars(row.cols, row.holdCols, panels) : "0"
+    }
+    if (beat % 4 == 3) str += "\n"
+  }
+  if (resolution != DWI_DEFAULT_RESOLUTION)
+    str += DWI_GROUPING_CLOSE[getGrouping(resolution)]
+  return str.trimEnd()
+}
+
+function getGrouping(resolution: number) {
+  return Object.keys(DWI_GROUPINGS).find(
+    key => DWI_GROUPINGS[key] == resolution
+  )!
+}
+
+function getStepChars(cols: number[], holdCols: number[], panels: DWIPanel[]) {
+  const findChar = (arrows: DWIPanel[]) =>
+    Object.keys(DWI_CHARS).find(
+      char =>
+        char != "5" &&
+        DWI_CHARS[char].length == arrows.length &&
+        arrows.every(arrow => DWI_CHARS[char].includes(arrow))
+    )!
+  const arrows = [...new Set(cols)].map(col => panels[col])
+  const holdArrows = holdCols.map(col => panels[col])
+
+  // Use a single character if one covers every arrow, otherwise a <> jump
+  const single = arrows.length <= 2 ? findChar(arrows) : undefined
+  if (single) {
+    return holdArrows.length > 0 ? single + "!" + findChar(holdArrows) : single
+  }
+  return (
+    "<" +
+    arrows
+      .map(arrow => {
+        const char = findChar([arrow])
+        return holdArrows.includes(arrow) ? char + "!" + char : char
+      })
+      .join("") +
+    ">"
+  )
+}
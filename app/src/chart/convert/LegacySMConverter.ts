@@ -0,0 +1,213 @@
+import { roundDigit } from "../../util/Math"
+import { Chart } from "../sm/Chart"
+import { Simfile } from "../sm/Simfile"
+import { SimfileTimingData } from "../sm/SimfileTimingData"
+import { TimingData } from "../sm/TimingData"
+import { TimingEvent, TimingEventType } from "../sm/TimingTypes"
+
+export interface LegacySMFile {
+  fileName: string
+  charts: Chart[]
+  data: string
+}
+
+export interface LegacySMExportResult {
+  files: LegacySMFile[]
+  warnings: string[]
+}
+
+const SM_TIMING_TYPES = [
+  "BPMS",
+  "STOPS",
+  "WARPS",
+  "TIMESIGNATURES",
+  "BGCHANGES",
+  "FGCHANGES",
+  "ATTACKS",
+] satisfies TimingEventType[]
+
+// Labels are left out since they don't affect gameplay
+const DROPPED_TIMING_TYPES = {
+  SPEEDS: "Speed changes",
+  SCROLLS: "Scroll changes",
+  FAKES: "Fake segments",
+  TICKCOUNTS: "Tickcounts",
+  COMBOS: "Combo multipliers",
+} satisfies Partial<Record<TimingEventType, string>>
+
+// Delays are written as a stop one row earlier. Notes on that row are hit
+// before the stop, so only notes between the two rows move
+const DELAY_ROW = 1 / 48
+
+/**
+ * Builds simfile timing for a chart that only uses properties an .sm can
+ * store. Warps are left in, since they are written as negative stops.
+ *
+ * @param {TimingData} timing
+ * @return {*}  {SimfileTimingData}
+ */
+function bakeTiming(timing: TimingData): SimfileTimingData {
+  const baked = new SimfileTimingData()
+  let offset = timing.getOffset()
+  const events: TimingEvent[] = SM_TIMING_TYPES.flatMap(type =>
+    timing.getTimingData(type).map(event => ({ ...event }) as TimingEvent)
+  )
+  for (const delay of timing.getTimingData("DELAYS")) {
+    if (delay.beat == 0) {
+      offset -= delay.value
+      continue
+    }
+    const beat = Math.max(0, delay.beat - DELAY_ROW)
+    const stop = events.find(
+      event => event.type == "STOPS" && Math.abs(event.beat - beat) < 0.0001
+    )
+    if (stop?.type == "STOPS") stop.value += delay.value
+    else events.push({ type: "STOPS", beat, value: delay.value })
+  }
+  baked.parse("OFFSET", offset.toString())
+  baked._insert(events)
+  baked.reloadCache()
+  return baked
+}
+
+function getTimingWarnings(timing: TimingData): string[] {
+  const warnings: string[] = []
+  if (timing.getTimingData("WARPS").length > 0)
+    warnings.push("Warps were written as negative stops")
+  for (const [type, name] of Object.entries(DROPPED_TIMING_TYPES)) {
+    const events = timing.getTimingData(
+      type as keyof typeof DROPPED_TIMING_TYPES
+    )
+    const used = events.some(event => {
+      switch (event.type) {
+        case "SPEEDS":
+        case "SCROLLS":
+          return event.value != 1
+        case "TICKCOUNTS":
+          return event.value != 4
+        case "COMBOS":
+          return event.hitMult != 1 || event.missMult != 1
+        default:
+          return true
+      }
+    })
+    if (used)
+      warnings.push(`${name} can't be stored in an .sm and were dropped`)
+  }
+  return warnings
+}
+
+function getDelayWarnings(chart: Chart): string[] {
+  const notedata = chart.getNotedata()
+  return chart.timingData
+    .getTimingData("DELAYS")
+    .filter(delay => delay.beat > 0)
+    .filter(delay =>
+      notedata.some(
+        note =>
+          note.beat > Math.max(0, delay.beat - DELAY_ROW) + 0.0005 &&
+          note.beat < delay.beat - 0.0005
+      )
+    )
+    .map(
+      delay =>
+        `The delay at beat ${roundDigit(delay.beat, 3)} was written as a stop ` +
+        `one row earlier, which moves the notes just before it`
+    )
+}
+
+function getChartLabels(charts: Chart[]): string[] {
+  const isUnique = (labels: string[]) =>
+    labels.every(label => labels.filter(other => other == label).length == 1)
+  let labels = charts.map(chart => chart.difficulty as string)
+  if (isUnique(labels)) return labels
+  labels = charts.map(chart =>
+    charts.some(
+      other => other != chart && other.gameType.id != chart.gameType.id
+    )
+      ? `${chart.gameType.id} ${chart.difficulty}`
+      : chart.difficulty
+  )
+  if (isUnique(labels)) return labels
+  labels = labels.map((label, i) =>
+    charts[i].description.trim() == ""
+      ? label
+      : `${label} ${charts[i].description.trim()}`
+  )
+  return labels.map((label, i) => {
+    const matches = labels.filter(other => other == label)
+    if (matches.length == 1) return label
+    return `${label} ${labels.slice(0, i).filter(other => other == label).length + 1}`
+  })
+}
+
+/**
+ * Converts a simfile to .sm files that engines without chart timing can play.
+ * If every chart ends up with the same timing it is written as the simfile
+ * timing of a single file, otherwise every chart gets its own file
+ * (e.g. Song [Hard].sm) with its timing folded in.
+ *
+ * @export
+ * @param {Simfile} sm
+ * @param {string} baseName - The file name to use, without extension.
+ * @return {*}  {LegacySMExportResult}
+ */
+export function simfileToLegacySM(
+  sm: Simfile,
+  baseName: string
+): LegacySMExportResult {
+  const warnings: string[] = []
+  const charts = Object.values(sm.charts).flat()
+  const labels = getChartLabels(charts)
+  const baked = charts.map(chart => bakeTiming(chart.timingData))
+  const timingStrings = baked.map(timing => timing.serialize("sm"))
+
+  if (sm.unloadedCharts.length > 0)
+    warnings.push(
+      `${sm.unloadedCharts.length} chart(s) with an unsupported game type were not exported`
+    )
+
+  if (timingStrings.every(timing => timing == timingStrings[0])) {
+    const timing = charts[0]?.timingData ?? sm.timingData
+    warnings.push(...getTimingWarnings(timing))
+    charts.forEach((chart, i) => {
+      warnings.push(
+        ...getDelayWarnings(chart).map(warning => `${labels[i]}: ${warning}`)
+      )
+      if (chart.music !== undefined && chart.music != sm.properties.MUSIC)
+        warnings.push(`${labels[i]}: The chart's music file was dropped`)
+    })
+    return {
+      files: [
+        {
+          fileName: baseName + ".sm",
+          charts,
+          data: sm.serializeLegacySM(
+            baked[0] ?? bakeTiming(sm.timingData),
+            charts
+          ),
+        },
+      ],
+      warnings,
+    }
+  }
+
+  const files = charts.map((chart, i) => {
+    const fileName = `${baseName} [${labels[i].replaceAll(/[\\/:*?"<>|]/g, "")}].sm`
+    warnings.push(
+      ...getTimingWarnings(chart.timingData)
+        .concat(getDelayWarnings(chart))
+        .map(warning => `${fileName}: ${warning}`)
+    )
+    return {
+      fileName,
+      charts: [chart],
+      data: sm.serializeLegacySM(
+        baked[i],
+        [chart],
+        chart.music ?? sm.properties.MUSIC
+      ),
+    }
+  })
+  return { files, warnings }
+}
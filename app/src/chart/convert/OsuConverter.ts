@@ -0,0 +1,541 @@
+import { clamp, roundDigit } from "../../util/Math"
+import { GameType, GameTypeRegistry } from "../gameTypes/GameTypeRegistry"
+import { escapeMSD } from "../sm/MSDTokenizer"
+import { Chart } from "../sm/Chart"
+import { CHART_DIFFICULTIES } from "../sm/ChartTypes"
+import { PartialNotedataEntry, isHoldNote } from "../sm/NoteTypes"
+
+export interface OsuTimingPoint {
+  time: number
+  beatLength: number
+  meter: number
+  uninherited: boolean
+}
+
+export interface OsuHitObject {
+  x: number
+  time: number
+  /** Only set for hold notes. */
+  endTime?: number
+}
+
+export interface OsuBeatmap {
+  sections: Record<string, Record<string, string>>
+  background?: string
+  timingPoints: OsuTimingPoint[]
+  hitObjects: OsuHitObject[]
+}
+
+export interface OsuExportResult {
+  data: string
+  warnings: string[]
+}
+
+interface OsuTimingSegment {
+  time: number
+  beat: number
+  msPerBeat: number
+}
+
+const OSU_MANIA_MODE = "3"
+const OSU_HOLD_FLAG = 128
+
+/**
+ * Parses the sections of a .osu beatmap that are needed for conversion.
+ *
+ * @export
+ * @param {string} data
+ * @return {*}  {OsuBeatmap}
+ */
+export function parseOsu(data: string): OsuBeatmap {
+  const beatmap: OsuBeatmap = { sections: {}, timingPoints: [], hitObjects: [] }
+  let section = ""
+  for (let line of data.split(/\r?\n/)) {
+    line = line.trim()
+    if (line == "" || line.startsWith("//")) continue
+    const header = /^\[(\w+)\]$/.exec(line)
+    if (header) {
+      section = header[1]
+      beatmap.sections[section] ||= {}
+      continue
+    }
+    if (section == "TimingPoints") {
+      const values = line.split(",")
+      const beatLength = parseFloat(values[1])
+      if (!isFinite(beatLength)) continue
+      beatmap.timingPoints.push({
+        time: parseFloat(values[0]),
+        beatLength,
+        meter: parseInt(values[2]) || 4,
+        // Old beatmaps leave out this field, in which case the sign decides
+        uninherited:
+          values[6] === undefined ? beatLength > 0 : values[6] == "1",
+      })
+    } else if (section == "HitObjects") {
+      const values = line.split(",")
+      const object: OsuHitObject = {
+        x: parseInt(values[0]),
+        time: parseInt(values[2]),
+      }
+      if (parseInt(values[3]) & OSU_HOLD_FLAG)
+        object.endTime = parseInt(values[5]?.split(":")[0])
+      if (isFinite(object.x) && isFinite(object.time))
+        beatmap.hitObjects.push(object)
+    } else if (section == "Events") {
+      const values = line.split(",")
+      if (
+        values[0] == "0" &&
+        values[1] == "0" &&
+        beatmap.background === undefined
+      )
+        beatmap.background = values[2]?.replaceAll('"', "")
+    } else if (section != "") {
+      const index = line.indexOf(":")
+      if (index == -1) continue
+      beatmap.sections[section][line.slice(0, index).trim()] = line
+        .slice(index + 1)
+        .trim()
+    }
+  }
+  beatmap.timingPoints.sort(
+    (a, b) => a.time - b.time || Number(b.uninherited) - Number(a.uninherited)
+  )
+  beatmap.hitObjects.sort((a, b) => a.time - b.time)
+  return beatmap
+}
+
+/**
+ * Returns true if the beatmap is an osu!mania beatmap.
+ *
+ * @export
+ * @param {OsuBeatmap} beatmap
+ * @return {*}  {boolean}
+ */
+export function isManiaBeatmap(beatmap: OsuBeatmap): boolean {
+  return beatmap.sections.General?.["Mode"] == OSU_MANIA_MODE
+}
+
+/**
+ * Finds the registered game type with the closest number of columns to the
+ * given key count. Ties prefer the game type that doesn't need columns merged.
+ *
+ * @export
+ * @param {number} keyCount
+ * @return {*}  {GameType}
+ */
+export function getClosestGameType(keyCount: number): GameType {
+  let best = GameTypeRegistry.getPriority()[0]
+  for (const gameType of GameTypeRegistry.getPriority()) {
+    const diff = Math.abs(gameType.numCols - keyCount)
+    const bestDiff = Math.abs(best.numCols - keyCount)
+    if (
+      diff < bestDiff ||
+      (diff == bestDiff &&
+        gameType.numCols >= keyCount &&
+        best.numCols < keyCount)
+    )
+      best = gameType
+  }
+  return best
+}
+
+/**
+ * Converts one or more osu!mania difficulties of the same song into the
+ * contents of an .ssc file. The first beatmap's timing becomes the song
+ * timing; difficulties with different timing get chart timing.
+ *
+ * @export
+ * @param {OsuBeatmap[]} beatmaps
+ * @return {*}  {string}
+ */
+export function osuToSSC(beatmaps: OsuBeatmap[]): string {
+  const main = beatmaps[0]
+  const metadata = main.sections.Metadata ?? {}
+  const general = main.sections.General ?? {}
+
+  const title = metadata["TitleUnicode"] || metadata["Title"] || ""
+  const artist = metadata["ArtistUnicode"] || metadata["Artist"] || ""
+
+  let str = "#VERSION:0.83;\n"
+  str += formatProperty("TITLE", title)
+  if (metadata["Title"] && metadata["Title"] != title)
+    str += formatProperty("TITLETRANSLIT", metadata["Title"])
+  str += formatProperty("ARTIST", artist)
+  if (metadata["Artist"] && metadata["Artist"] != artist)
+    str += formatProperty("ARTISTTRANSLIT", metadata["Artist"])
+  str += formatProperty("GENRE", metadata["Source"] ?? "")
+  str += formatProperty("CREDIT", metadata["Creator"] ?? "")
+  str += formatProperty("MUSIC", general["AudioFilename"] ?? "")
+  str += formatProperty("BACKGROUND", main.background ?? "")
+  const previewTime = parseInt(general["PreviewTime"])
+  str += formatProperty(
+    "SAMPLESTART",
+    previewTime >= 0 ? roundDigit(previewTime / 1000, 3) + "" : "0"
+  )
+  str += formatProperty("SAMPLELENGTH", "12")
+  str += formatProperty("SELECTABLE", "YES")
+
+  const firstNote = Math.min(
+    ...beatmaps.map(beatmap => beatmap.hitObjects[0]?.time ?? 0)
+  )
+  const songTiming = convertTiming(main, firstNote)
+  str += songTiming.text + "\n"
+
+  const charts = beatmaps
+    .map(beatmap => {
+      const timing = convertTiming(beatmap, firstNote)
+      const keyCount = parseInt(beatmap.sections.Difficulty?.["CircleSize"])
+      const gameType = getClosestGameType(keyCount || 4)
+      const notes = convertHitObjects(beatmap, timing.segments, keyCount)
+      return { beatmap, timing, gameType, notes }
+    })
+    .sort((a, b) => a.notes.length - b.notes.length)
+
+  // Give the hardest difficulties of each game type Challenge, Hard, etc.
+  const difficulties = CHART_DIFFICULTIES.filter(
+    difficulty => difficulty != "Edit"
+  )
+  const remaining = new Map<string, number>()
+  for (const { gameType } of charts)
+    remaining.set(gameType.id, (remaining.get(gameType.id) ?? 0) + 1)
+
+  charts.forEach(({ beatmap, timing, gameType, notes }) => {
+    const metadata = beatmap.sections.Metadata ?? {}
+    const left = remaining.get(gameType.id)!
+    remaining.set(gameType.id, left - 1)
+    const difficulty =
+      left <= difficulties.length
+        ? difficulties[difficulties.length - left]
+        : "Edit"
+    str += `//---------------${gameType.id} - ${metadata["Version"] ?? ""}---------------\n`
+    str += "#NOTEDATA:;\n"
+    str += formatProperty("CHARTNAME", metadata["Version"] ?? "")
+    str += formatProperty("CREDIT", metadata["Creator"] ?? "")
+    str += formatProperty("STEPSTYPE", gameType.id)
+    str += formatProperty("DESCRIPTION", metadata["Version"] ?? "")
+    str += formatProperty("DIFFICULTY", difficulty)
+    str += formatProperty("METER", estimateMeter(beatmap) + "")
+    str += formatProperty("RADARVALUES", "0,0,0,0,0")
+    if (timing.text != songTiming.text) str += timing.text
+    str += "#NOTES:\n"
+    str += gameType.parser.serialize(notes, gameType) + ";\n\n"
+  })
+  return str
+}
+
+/**
+ * Converts a chart into an osu!mania beatmap. Anything that can't be
+ * represented in osu! is approximated and reported as a warning.
+ *
+ * @export
+ * @param {Chart} chart
+ * @return {*}  {OsuExportResult}
+ */
+export function chartToOsu(chart: Chart): OsuExportResult {
+  const sm = chart.sm
+  const timing = chart.timingData
+  const keyCount = chart.gameType.numCols
+  const warnings: string[] = []
+
+  let str = "osu file format v14\n\n"
+  str += "[General]\n"
+  str += `AudioFilename: ${chart.music || sm.properties.MUSIC || ""}\n`
+  str += "AudioLeadIn: 0\n"
+  str += `PreviewTime: ${Math.round(parseFloat(sm.properties.SAMPLESTART ?? "0") * 1000) || 0}\n`
+  str += "Countdown: 0\n"
+  str += "SampleSet: Normal\n"
+  str += "StackLeniency: 0.7\n"
+  str += `Mode: ${OSU_MANIA_MODE}\n`
+  str += "LetterboxInBreaks: 0\n"
+  str += "SpecialStyle: 0\n"
+  str += "WidescreenStoryboard: 0\n\n"
+
+  str += "[Metadata]\n"
+  str += `Title:${sm.properties.TITLETRANSLIT || sm.properties.TITLE || ""}\n`
+  str += `TitleUnicode:${sm.properties.TITLE ?? ""}\n`
+  str += `Artist:${sm.properties.ARTISTTRANSLIT || sm.properties.ARTIST || ""}\n`
+  str += `ArtistUnicode:${sm.properties.ARTIST ?? ""}\n`
+  str += `Creator:${chart.credit || sm.properties.CREDIT || ""}\n`
+  str += `Version:${getOsuVersion(chart)}\n`
+  str += `Source:${sm.properties.GENRE ?? ""}\n`
+  str += "Tags:\n\n"
+
+  str += "[Difficulty]\n"
+  str += "HPDrainRate:8\n"
+  str += `CircleSize:${keyCount}\n`
+  str += "OverallDifficulty:8\n"
+  str += "ApproachRate:5\n"
+  str += "SliderMultiplier:1.4\n"
+  str += "SliderTickRate:1\n\n"
+
+  str += "[Events]\n"
+  if (sm.properties.BACKGROUND) str += `0,0,"${sm.properties.BACKGROUND}",0,0\n`
+  str += "\n"
+
+  for (const type of ["STOPS", "DELAYS", "WARPS"] as const) {
+    const count = timing.getTimingData(type).length
+    if (count > 0)
+      warnings.push(
+        `${count} ${type.toLowerCase()} can't be represented in osu! and were ignored`
+      )
+  }
+
+  const points: OsuTimingPoint[] = []
+  const addPoint = (
+    beat: number,
+    beatLength: number,
+    meter: number,
+    uninherited: boolean
+  ) => {
+    const time = Math.round(timing.getSecondsFromBeat(beat) * 1000)
+    points.push({ time, beatLength, meter, uninherited })
+  }
+  const getMeter = (beat: number) =>
+    Math.max(1, Math.round(timing.getMeasureLength(beat)))
+
+  const bpms = timing.getTimingData("BPMS")
+  const timeSigs = timing.getTimingData("TIMESIGNATURES")
+  const redLineBeats = [
+    ...new Set([
+      ...bpms.map(event => event.beat),
+      ...timeSigs.map(event => event.beat),
+    ]),
+  ].sort((a, b) => a - b)
+  if (redLineBeats.length == 0 || redLineBeats[0] > 0) redLineBeats.unshift(0)
+  const svBeats = [
+    ...new Set([
+      ...timing.getTimingData("SCROLLS").map(event => event.beat),
+      ...timing.getTimingData("SPEEDS").map(event => event.beat),
+    ]),
+  ].sort((a, b) => a - b)
+  let negativeBPMs = 0
+  for (const beat of redLineBeats) {
+    const bpm = timing.getEventAtBeat("BPMS", beat)?.value ?? 120
+    if (bpm <= 0) {
+      negativeBPMs++
+      continue
+    }
+    addPoint(beat, 60000 / bpm, getMeter(beat), true)
+  }
+  if (negativeBPMs > 0)
+    warnings.push(
+      `${negativeBPMs} negative bpm changes can't be represented in osu! and were ignored`
+    )
+  if (timing.getTimingData("SPEEDS").some(event => event.delay > 0))
+    warnings.push("Gradual speed changes were converted to instant ones")
+  for (const beat of svBeats) {
+    const speed =
+      (timing.getEventAtBeat("SCROLLS", beat)?.value ?? 1) *
+      (timing.getEventAtBeat("SPEEDS", beat)?.value ?? 1)
+    const multiplier = clamp(speed, 0.01, 10)
+    if (multiplier != speed)
+      warnings.push(
+        `The scroll speed at beat ${roundDigit(beat, 3)} was clamped to ${multiplier}`
+      )
+    addPoint(beat, -100 / multiplier, getMeter(beat), false)
+  }
+  str += "[TimingPoints]\n"
+  str += points
+    .sort(
+      (a, b) => a.time - b.time || Number(b.uninherited) - Number(a.uninherited)
+    )
+    .map(point =>
+      [
+        point.time,
+        roundDigit(point.beatLength, 12),
+        point.meter,
+        1,
+        0,
+        100,
+        point.uninherited ? 1 : 0,
+        0,
+      ].join(",")
+    )
+    .join("\n")
+  str += "\n\n"
+
+  const skipped: Record<string, number> = {}
+  const objects: string[] = []
+  for (const note of chart.getNotedata()) {
+    if (note.type == "Mine" || note.type == "Fake" || note.fake) {
+      skipped[note.fake ? "fake" : note.type.toLowerCase()] =
+        (skipped[note.fake ? "fake" : note.type.toLowerCase()] ?? 0) + 1
+      continue
+    }
+    const x = Math.floor(((note.col + 0.5) * 512) / keyCount)
+    const time = Math.round(note.second * 1000)
+    if (isHoldNote(note)) {
+      const endTime = Math.round(
+        timing.getSecondsFromBeat(note.beat + note.hold) * 1000
+      )
+      objects.push(`${x},192,${time},${OSU_HOLD_FLAG},0,${endTime}:0:0:0:0:`)
+    } else {
+      objects.push(`${x},192,${time},1,0,0:0:0:0:`)
+    }
+  }
+  for (const [type, count] of Object.entries(skipped))
+    warnings.push(
+      `${count} ${type} notes can't be represented and were skipped`
+    )
+  str += "[HitObjects]\n" + objects.join("\n") + "\n"
+
+  return { data: str, warnings }
+}
+
+/**
+ * Returns the default file name for an exported chart, following osu!'s
+ * "Artist - Title (Creator) [Version].osu" convention.
+ *
+ * @export
+ * @param {Chart} chart
+ * @return {*}  {string}
+ */
+export function getOsuFileName(chart: Chart): string {
+  const sm = chart.sm
+  const name = `${sm.properties.ARTISTTRANSLIT || sm.properties.ARTIST || "Unknown"} - ${sm.properties.TITLETRANSLIT || sm.properties.TITLE || "Unknown"} (${chart.credit || sm.properties.CREDIT || "Unknown"}) [${getOsuVersion(chart)}].osu`
+  return name.replaceAll(/[/\\?%*:|"<>]/g, "")
+}
+
+function getOsuVersion(chart: Chart) {
+  return chart.chartName || chart.description || chart.difficulty
+}
+
+function formatProperty(name: string, value: string) {
+  return "#" + name + ":" + escapeMSD(value) + ";\n"
+}
+
+function convertTiming(beatmap: OsuBeatmap, firstNote: number) {
+  // Only the last red line at a time counts. Green lines sort after red
+  // lines at the same time, so they can't be used to find the last one.
+  const redLines = beatmap.timingPoints
+    .filter(point => point.uninherited && point.beatLength > 0)
+    .filter((point, index, points) => points[index + 1]?.time !== point.time)
+  if (redLines.length == 0)
+    redLines.push({ time: 0, beatLength: 500, meter: 4, uninherited: true })
+
+  // Move beat 0 back by whole measures so that no note has a negative beat
+  const first = redLines[0]
+  const measureLength = first.beatLength * first.meter
+  const measuresBack = Math.max(
+    0,
+    Math.ceil((first.time - Math.min(firstNote, 0)) / measureLength)
+  )
+  const segments: OsuTimingSegment[] = [
+    {
+      time: first.time - measuresBack * measureLength,
+      beat: 0,
+      msPerBeat: first.beatLength,
+    },
+  ]
+  const timeSigs = [`0.000=${first.meter}=4`]
+  for (let i = 1; i < redLines.length; i++) {
+    const previous = segments.at(-1)!
+    const point = redLines[i]
+    // Red lines have to land on a beat. If one doesn't, the fraction of a
+    // beat before it gets its own bpm so the rest of the section stays exact
+    const dt = point.time - previous.time
+    const length = dt / previous.msPerBeat
+    let beats = Math.round(length)
+    if (beats > 0 && Math.abs(length - beats) < 0.01) {
+      previous.msPerBeat = dt / beats
+    } else {
+      beats = Math.floor(length) + 1
+      if (beats > 1) {
+        const fillerTime = previous.time + (beats - 1) * previous.msPerBeat
+        segments.push({
+          time: fillerTime,
+          beat: previous.beat + beats - 1,
+          msPerBeat: point.time - fillerTime,
+        })
+      } else {
+        previous.msPerBeat = dt
+      }
+    }
+    segments.push({
+      time: point.time,
+      beat: previous.beat + beats,
+      msPerBeat: point.beatLength,
+    })
+    if (point.meter != redLines[i - 1].meter)
+      timeSigs.push(`${(previous.beat + beats).toFixed(3)}=${point.meter}=4`)
+  }
+
+  const scrolls = new Map<string, number>()
+  let scroll = 1
+  for (const point of beatmap.timingPoints) {
+    const beat = getBeat(segments, point.time).toFixed(3)
+    if (point.uninherited) {
+      if (scroll != 1) scrolls.set(beat, 1)
+      scroll = 1
+      continue
+    }
+    scroll = clamp(-100 / point.beatLength, 0.01, 10)
+    scrolls.set(beat, scroll)
+  }
+
+  let text = formatProperty("OFFSET", (-segments[0].time / 1000).toFixed(3))
+  text += formatProperty(
+    "BPMS",
+    segments
+      .map(
+        segment =>
+          segment.beat.toFixed(3) + "=" + (60000 / segment.msPerBeat).toFixed(3)
+      )
+      .join(",\n")
+  )
+  text += formatProperty("TIMESIGNATURES", timeSigs.join(",\n"))
+  text += formatProperty(
+    "SCROLLS",
+    [...scrolls.entries()]
+      .map(([beat, value]) => beat + "=" + roundDigit(value, 3))
+      .join(",\n")
+  )
+  return { text, segments }
+}
+
+function getBeat(segments: OsuTimingSegment[], time: number) {
+  let segment = segments[0]
+  for (const next of segments) {
+    if (next.time > time) break
+    segment = next
+  }
+  return segment.beat + (time - segment.time) / segment.msPerBeat
+}
+
+function convertHitObjects(
+  beatmap: OsuBeatmap,
+  segments: OsuTimingSegment[],
+  keyCount: number
+): PartialNotedataEntry[] {
+  const gameType = getClosestGameType(keyCount || 4)
+  keyCount ||= gameType.numCols
+  const notes = new Map<string, PartialNotedataEntry>()
+  const quantize = (time: number) =>
+    Math.max(0, Math.round(getBeat(segments, time) * 48) / 48)
+  for (const object of beatmap.hitObjects) {
+    const col =
+      clamp(Math.floor((object.x * keyCount) / 512), 0, keyCount - 1) %
+      gameType.numCols
+    const beat = quantize(object.time)
+    const note: PartialNotedataEntry =
+      object.endTime !== undefined && object.endTime > object.time
+        ? {
+            beat,
+            col,
+            type: "Hold",
+            hold: Math.max(1 / 48, quantize(object.endTime) - beat),
+          }
+        : { beat, col, type: "Tap" }
+    notes.set(beat + "-" + col, note)
+  }
+  return [...notes.values()].sort((a, b) => a.beat - b.beat || a.col - b.col)
+}
+
+function estimateMeter(beatmap: OsuBeatmap) {
+  // A rough guess from the average notes per second
+  const objects = beatmap.hitObjects
+  if (objects.length < 2) return 1
+  const length = (objects.at(-1)!.time - objects[0].time) / 1000
+  if (length <= 0) return 1
+  return clamp(Math.round((objects.length / length) * 1.5), 1, 20)
+}
@@ -0,0 +1,42 @@
+import { GameType } from "./GameTypeRegistry"
+import { GameLogic } from "./base/GameLogic"
+
+import { BasicGameLogic } from "./common/BasicGameLogic"
+import { PumpGameLogic } from "./pump/PumpGameLogic"
+
+// Game logic is kept out of GameTypeRegistry so the chart model can be used
+// without loading any of the gameplay code (e.g. from the command line)
+export class GameLogicRegistry {
+  private static gameLogics: Record<string, GameLogic> = {}
+  private static readonly fallback = new BasicGameLogic()
+
+  static register(id: string, gameLogic: GameLogic) {
+    GameLogicRegistry.gameLogics[id] = gameLogic
+  }
+
+  static getGameLogic(gameType: GameType): GameLogic {
+    return GameLogicRegistry.gameLogics[gameType.id] ?? this.fallback
+  }
+}
+
+for (const id of [
+  "dance-single",
+  "dance-double",
+  "dance-couple",
+  "dance-solo",
+  "dance-solodouble",
+  "dance-threepanel",
+  "dance-threedouble",
+]) {
+  GameLogicRegistry.register(id, new BasicGameLogic())
+}
+
+for (const id of [
+  "pump-single",
+  "pump-double",
+  "pump-versus",
+  "pump-couple",
+  "pump-halfdouble",
+]) {
+  GameLogicRegistry.register(id, new PumpGameLogic())
+}
@@ -1,10 +1,7 @@
 import { NoteType } from "../sm/NoteTypes"
-import { GameLogic } from "./base/GameLogic"
 import { NotedataParser } from "./base/NotedataParser"
 
-import { BasicGameLogic } from "./common/BasicGameLogic"
 import { BasicNotedataParser } from "./common/BasicNotedataParser"
-import { PumpGameLogic } from "./pump/PumpGameLogic"
 
 export interface GameType {
   id: string
@@ -12,7 +9,6 @@ export interface GameType {
   columnWidths: number[]
   notefieldWidth: number
   columnNames: string[]
-  gameLogic: GameLogic
   parser: NotedataParser
   editNoteTypes: NoteType[]
   flipColumns: {
@@ -52,7 +48,6 @@ GameTypeRegistry.register({
   numCols: 4,
   columnWidths: [64, 64, 64, 64],
   columnNames: ["Left", "Down", "Up", "Right"],
-  gameLogic: new BasicGameLogic(),
   parser: new BasicNotedataParser(),
   editNoteTypes: ["Tap", "Mine", "Fake", "Lift"],
   flipColumns: {
@@ -66,7 +61,6 @@ GameTypeRegistry.register({
   numCols: 8,
   columnWidths: [64, 64, 64, 64, 64, 64, 64, 64],
   columnNames: ["Left", "Down", "Up", "Right", "Left", "Down", "Up", "Right"],
-  gameLogic: new BasicGameLogic(),
   parser: new BasicNotedataParser(),
   editNoteTypes: ["Tap", "Mine", "Fake", "Lift"],
   flipColumns: {
@@ -80,7 +74,6 @@ GameTypeRegistry.register({
   numCols: 8,
   columnWidths: [64, 64, 64, 64, 64, 64, 64, 64],
   columnNames: ["Left", "Down", "Up", "Right", "Left", "Down", "Up", "Right"],
-  gameLogic: new BasicGameLogic(),
   parser: new BasicNotedataParser(),
   editNoteTypes: ["Tap", "Mine", "Fake", "Lift"],
   flipColumns: {
@@ -94,7 +87,6 @@ GameTypeRegistry.register({
   numCols: 6,
   columnWidths: [64, 64, 64, 64, 64, 64],
   columnNames: ["Left", "UpLeft", "Down", "Up", "UpRight", "Right"],
-  gameLogic: new BasicGameLogic(),
   parser: new BasicNotedataParser(),
   editNoteTypes: ["Tap", "Mine", "Fake", "Lift"],
   flipColumns: {
@@ -121,7 +113,6 @@ GameTypeRegistry.register({
     "UpRight",
     "Right",
   ],
-  gameLogic: new BasicGameLogic(),
   parser: new BasicNotedataParser(),
   editNoteTypes: ["Tap", "Mine", "Fake", "Lift"],
   flipColumns: {
@@ -135,7 +126,6 @@ GameTypeRegistry.register({
   numCols: 3,
   columnWidths: [64, 64, 64],
   columnNames: ["UpLeft", "Down", "UpRight"],
-  gameLogic: new BasicGameLogic(),
   parser: new BasicNotedataParser(),
   editNoteTypes: ["Tap", "Mine", "Fake", "Lift"],
   flipColumns: {
@@ -149,7 +139,6 @@ GameTypeRegistry.register({
   numCols: 6,
   columnWidths: [64, 64, 64, 64, 64, 64],
   columnNames: ["UpLeft", "Down", "UpRight", "UpLeft", "Down", "UpRight"],
-  gameLogic: new BasicGameLogic(),
   parser: new BasicNotedataParser(),
   editNoteTypes: ["Tap", "Mine", "Fake", "Lift"],
   flipColumns: {
@@ -163,7 +152,6 @@ GameTypeRegistry.register({
   numCols: 5,
   columnWidths: [58, 58, 58, 58, 58],
   columnNames: ["DownLeft", "UpLeft", "Center", "UpRight", "DownRight"],
-  gameLogic: new PumpGameLogic(),
   parser: new BasicNotedataParser(),
   editNoteTypes: ["Tap", "Mine", "Fake", "Lift"],
   flipColumns: {
@@ -188,7 +176,6 @@ GameTypeRegistry.register({
     "UpRight",
     "DownRight",
   ],
-  gameLogic: new PumpGameLogic(),
   parser: new BasicNotedataParser(),
   editNoteTypes: ["Tap", "Mine", "Fake", "Lift"],
   flipColumns: {
@@ -213,7 +200,6 @@ GameTypeRegistry.register({
     "UpRight",
     "DownRight",
   ],
-  gameLogic: new PumpGameLogic(),
   parser: new BasicNotedataParser(),
   editNoteTypes: ["Tap", "Mine", "Fake", "Lift"],
   flipColumns: {
@@ -238,7 +224,6 @@ GameTypeRegistry.register({
     "UpRight",
     "DownRight",
   ],
-  gameLogic: new PumpGameLogic(),
   parser: new BasicNotedataParser(),
   editNoteTypes: ["Tap", "Mine", "Fake", "Lift"],
   flipColumns: {
@@ -259,7 +244,6 @@ GameTypeRegistry.register({
     "UpLeft",
     "Center",
   ],
-  gameLogic: new PumpGameLogic(),
   parser: new BasicNotedataParser(),
   editNoteTypes: ["Tap", "Mine", "Fake", "Lift"],
   flipColumns: {
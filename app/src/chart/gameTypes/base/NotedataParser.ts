@@ -1,3 +1,4 @@
+import { RadarValues } from "../../sm/ChartTypes"
 import { Notedata, PartialNotedata } from "../../sm/NoteTypes"
 import { TimingData } from "../../sm/TimingData"
 import { GameType } from "../GameTypeRegistry"
@@ -45,4 +46,18 @@ export abstract class NotedataParser {
    * @memberof NotedataParser
    */
   abstract getNPSGraph(notedata: Notedata, timingData: TimingData): number[]
+
+  /**
+   * Returns the groove radar values and note counts of the notedata.
+   *
+   * @abstract
+   * @param {Notedata} notedata
+   * @param {TimingData} timingData
+   * @return {*}  {RadarValues}
+   * @memberof NotedataParser
+   */
+  abstract getRadarValues(
+    notedata: Notedata,
+    timingData: TimingData
+  ): RadarValues
 }
@@ -1,6 +1,6 @@
 import { ColHeldTracker } from "../../../util/ColHeldTracker"
+import { bsearch } from "../../../util/Math"
 import { Options } from "../../../util/Options"
-import { bsearch } from "../../../util/Util"
 import { ChartManager } from "../../ChartManager"
 import { TimingWindowCollection } from "../../play/TimingWindowCollection"
 import {
@@ -205,6 +205,7 @@ export class BasicGameLogic extends GameLogic {
     hitTime: number
   ) {
     note.gameplay!.hasHit = true
+    chartManager.keysounds.play(note)
     if (isHoldNote(note)) {
       note.gameplay!.lastHoldActivation = Date.now()
       if (note.type == "Roll") {
@@ -1,5 +1,5 @@
-import { lcm, lcm2, roundDigit } from "../../../util/Math"
-import { getDivision } from "../../../util/Util"
+import { getDivision, lcm, lcm2, roundDigit } from "../../../util/Math"
+import { RadarValues } from "../../sm/ChartTypes"
 import {
   isHoldNote,
   Notedata,
@@ -21,6 +21,14 @@ const NOTE_TYPE_LOOKUP: Record<string, NoteType> = {
   L: "Lift",
 }
 
+// Densities at which each radar category maxes out, taken from StepMania
+const RADAR_STREAM_MAX_NPS = 7
+const RADAR_VOLTAGE_MAX_NPS = 10
+const RADAR_VOLTAGE_WINDOW = 8
+const RADAR_AIR_MAX_JUMPS_PER_SECOND = 1
+const RADAR_FREEZE_MAX_HOLDS_PER_SECOND = 0.3
+const RADAR_CHAOS_MAX_ROWS_PER_SECOND = 0.5
+
 const NOTE_TYPE_LOOKUP_REV: Record<NoteType, string> = {
   Tap: "1",
   Hold: "2",
@@ -71,7 +79,7 @@ export class BasicNotedataParser extends NotedataParser {
           const note = measureNotes.shift()!
           row[note.col] = NOTE_TYPE_LOOKUP_REV[note.type]
           if (note.notemods) row[note.col] += `{${note.notemods}}`
-          if (note.keysounds) row[note.col] += `{${note.keysounds}}`
+          if (note.keysounds) row[note.col] += `[${note.keysounds}]`
         }
         while (
           roundDigit(measureHoldNotes[0]?.beat ?? -1, 3) == roundDigit(beat, 3)
@@ -266,4 +274,67 @@ export class BasicNotedataParser extends NotedataParser {
     }
     return nps
   }
+
+  getRadarValues(notedata: Notedata, timingData: TimingData): RadarValues {
+    const stats = this.getStats(notedata)
+    const rows = new Map<number, number>()
+    const chaosRows = new Set<number>()
+    const windows = new Map<number, number>()
+    let lastBeat = 0
+    for (const note of notedata) {
+      lastBeat = Math.max(
+        lastBeat,
+        note.beat + (isHoldNote(note) ? note.hold : 0)
+      )
+      if (note.fake || note.warped || note.type == "Mine") continue
+      rows.set(note.beat, (rows.get(note.beat) ?? 0) + 1)
+      const window = Math.floor(note.beat / RADAR_VOLTAGE_WINDOW)
+      windows.set(window, (windows.get(window) ?? 0) + 1)
+      // Anything finer than 8ths
+      if (note.quant > 8) chaosRows.add(note.beat)
+    }
+    const notes = stats.Taps + stats.Holds + stats.Rolls + stats.Lifts
+    const values: RadarValues = {
+      Stream: 0,
+      Voltage: 0,
+      Air: 0,
+      Freeze: 0,
+      Chaos: 0,
+      Notes: notes,
+      TapsAndHolds: rows.size,
+      Jumps: stats.Jumps,
+      Holds: stats.Holds,
+      Mines: stats.Mines,
+      Hands: stats.Hands,
+      Rolls: stats.Rolls,
+      Lifts: stats.Lifts,
+      Fakes: stats.Fakes,
+    }
+    const seconds = timingData.getSecondsFromBeat(lastBeat)
+    if (seconds <= 0) return values
+
+    const maxWindowNotes = Math.max(0, ...windows.values())
+    const averageBPS = lastBeat / seconds
+
+    values.Stream = Math.min(notes / seconds / RADAR_STREAM_MAX_NPS, 1)
+    values.Voltage = Math.min(
+      (maxWindowNotes * averageBPS) /
+        RADAR_VOLTAGE_WINDOW /
+        RADAR_VOLTAGE_MAX_NPS,
+      1
+    )
+    values.Air = Math.min(
+      stats.Jumps / seconds / RADAR_AIR_MAX_JUMPS_PER_SECOND,
+      1
+    )
+    values.Freeze = Math.min(
+      stats.Holds / seconds / RADAR_FREEZE_MAX_HOLDS_PER_SECOND,
+      1
+    )
+    values.Chaos = Math.min(
+      chaosRows.size / seconds / RADAR_CHAOS_MAX_ROWS_PER_SECOND,
+      1
+    )
+    return values
+  }
 }
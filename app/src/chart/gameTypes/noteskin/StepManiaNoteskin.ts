@@ -0,0 +1,584 @@
+import { AnimatedSprite, Rectangle, Sprite, Texture } from "pixi.js"
+import { WaterfallManager } from "../../../gui/element/WaterfallManager"
+import { BezierAnimator } from "../../../util/BezierEasing"
+import { basename, dirname, extname } from "../../../util/Path"
+import { FileHandler } from "../../../util/file-handler/FileHandler"
+import { GameTypeRegistry } from "../GameTypeRegistry"
+import { HoldBody } from "./_template/HoldBody"
+import { HoldTail } from "./_template/HoldTail"
+import { HoldTopCap } from "./_template/HoldTopCap"
+import {
+  NoteskinElementCreationData,
+  NoteskinElementGenerators,
+  NoteskinElements,
+  NoteskinMetrics,
+  NoteskinOptions,
+  NoteskinSprite,
+} from "./Noteskin"
+import { NoteskinRegistry } from "./NoteskinRegistry"
+
+interface SheetFile {
+  handle: FileSystemFileHandle
+  xFrames: number
+  yFrames: number
+  doubleRes: boolean
+}
+
+interface SheetMetrics {
+  animationLength: number
+  vivid: boolean
+  colorCount: number
+  spacingX: number
+  spacingY: number
+}
+
+interface Sheet {
+  file: SheetFile
+  // Rotation in degrees, used when another button's image is borrowed
+  rotation: number
+  metrics: SheetMetrics
+}
+
+type IniData = Record<string, Record<string, string>>
+
+const IMAGE_EXT = [".png", ".jpg", ".jpeg", ".gif", ".bmp"]
+
+// Like StepMania's default noteskin, dance skins only need to provide Down
+// and pump skins only need DownLeft and Center
+const ROTATIONS: Record<string, Record<string, number>> = {
+  Down: {
+    Left: 90,
+    Down: 0,
+    Up: 180,
+    Right: -90,
+    UpLeft: 135,
+    UpRight: -135,
+    DownRight: -45,
+    DownLeft: 45,
+  },
+  DownLeft: {
+    DownLeft: 0,
+    Center: 0,
+    UpLeft: 90,
+    UpRight: 180,
+    DownRight: 270,
+  },
+}
+
+const ROTATED_ELEMENTS: (keyof NoteskinElements)[] = [
+  "Receptor",
+  "Tap",
+  "Lift",
+  "Fake",
+  "Hold Inactive Head",
+  "Hold Active Head",
+  "Roll Inactive Head",
+  "Roll Active Head",
+  "NoteFlash",
+]
+
+// The StepMania element names to try for each element, in order
+const ELEMENT_NAMES: Record<keyof NoteskinElements, string[]> = {
+  Tap: ["Tap Note"],
+  Fake: ["Tap Fake", "Tap Note"],
+  Lift: ["Tap Lift", "Tap Note"],
+  Mine: ["Tap Mine"],
+  "Hold Inactive Head": ["Hold Head Inactive", "Hold Head Active", "Tap Note"],
+  "Hold Inactive TopCap": ["Hold TopCap Inactive", "Hold TopCap Active"],
+  "Hold Inactive Body": ["Hold Body Inactive", "Hold Body Active"],
+  "Hold Inactive BottomCap": [
+    "Hold BottomCap Inactive",
+    "Hold BottomCap Active",
+  ],
+  "Hold Active Head": ["Hold Head Active", "Hold Head Inactive", "Tap Note"],
+  "Hold Active TopCap": ["Hold TopCap Active", "Hold TopCap Inactive"],
+  "Hold Active Body": ["Hold Body Active", "Hold Body Inactive"],
+  "Hold Active BottomCap": ["Hold BottomCap Active", "Hold BottomCap Inactive"],
+  "Roll Inactive Head": [
+    "Roll Head Inactive",
+    "Roll Head Active",
+    "Hold Head Inactive",
+    "Hold Head Active",
+    "Tap Note",
+  ],
+  "Roll Inactive TopCap": [
+    "Roll TopCap Inactive",
+    "Roll TopCap Active",
+    "Hold TopCap Inactive",
+    "Hold TopCap Active",
+  ],
+  "Roll Inactive Body": [
+    "Roll Body Inactive",
+    "Roll Body Active",
+    "Hold Body Inactive",
+    "Hold Body Active",
+  ],
+  "Roll Inactive BottomCap": [
+    "Roll BottomCap Inactive",
+    "Roll BottomCap Active",
+    "Hold BottomCap Inactive",
+    "Hold BottomCap Active",
+  ],
+  "Roll Active Head": [
+    "Roll Head Active",
+    "Roll Head Inactive",
+    "Hold Head Active",
+    "Tap Note",
+  ],
+  "Roll Active TopCap": [
+    "Roll TopCap Active",
+    "Roll TopCap Inactive",
+    "Hold TopCap Active",
+    "Hold TopCap Inactive",
+  ],
+  "Roll Active Body": [
+    "Roll Body Active",
+    "Roll Body Inactive",
+    "Hold Body Active",
+    "Hold Body Inactive",
+  ],
+  "Roll Active BottomCap": [
+    "Roll BottomCap Active",
+    "Roll BottomCap Inactive",
+    "Hold BottomCap Active",
+    "Hold BottomCap Inactive",
+  ],
+  Receptor: ["Receptor", "Receptor Go"],
+  NoteFlash: [
+    "Tap Explosion Bright",
+    "Tap Explosion Bright W1",
+    "Tap Explosion Dim",
+  ],
+}
+
+// Quantizations in the order of StepMania's note colors
+const NOTE_COLORS = [4, 8, 12, 16, 24, 32, 48, 64, 192]
+
+const STORAGE_KEY = "importedNoteskins"
+
+function parseIni(data: string): IniData {
+  const ini: IniData = {}
+  let section: Record<string, string> = {}
+  for (let line of data.split(/\r?\n/)) {
+    line = line.replace(/\/\/.*$/, "").trim()
+    if (line == "" || line.startsWith("#") || line.startsWith(";")) continue
+    const header = /^\[(.+)\]$/.exec(line)
+    if (header) {
+      const name = header[1].trim().toLowerCase()
+      section = ini[name] ?? (ini[name] = {})
+      continue
+    }
+    const split = line.indexOf("=")
+    if (split == -1) continue
+    section[line.slice(0, split).trim().toLowerCase()] = line
+      .slice(split + 1)
+      .trim()
+  }
+  return ini
+}
+
+/**
+ * Normalizes a noteskin file name, so "Down Tap Note 4x2 (doubleres).png"
+ * can be looked up as "down tap note".
+ *
+ * @param {string} fileName
+ * @return {*}
+ */
+function parseFileName(fileName: string) {
+  let name = basename(fileName, extname(fileName))
+  const doubleRes = /\(doubleres\)/i.test(name)
+  name = name.replaceAll(/\([^)]*\)/g, "").trim()
+  let xFrames = 1
+  let yFrames = 1
+  const frames = /\s(\d+)x(\d+)$/i.exec(name)
+  if (frames) {
+    xFrames = Math.max(1, parseInt(frames[1]))
+    yFrames = Math.max(1, parseInt(frames[2]))
+    name = name.slice(0, frames.index)
+  }
+  return {
+    name: name.replaceAll(/\s+/g, " ").trim().toLowerCase(),
+    xFrames,
+    yFrames,
+    doubleRes,
+  }
+}
+
+async function readNoteskinFiles(path: string) {
+  const sheets = new Map<string, SheetFile>()
+  const redirects = new Map<string, string>()
+  let ini: IniData = {}
+  for (const handle of await FileHandler.getDirectoryFiles(path)) {
+    const ext = extname(handle.name).toLowerCase()
+    if (handle.name.toLowerCase() == "metrics.ini") {
+      ini = parseIni(await (await handle.getFile()).text())
+    } else if (ext == ".redir") {
+      const target = (await (await handle.getFile()).text()).trim()
+      redirects.set(parseFileName(handle.name).name, parseFileName(target).name)
+    } else if (IMAGE_EXT.includes(ext)) {
+      const { name, ...sheet } = parseFileName(handle.name)
+      if (!sheets.has(name)) sheets.set(name, { handle, ...sheet })
+    }
+  }
+  return { sheets, redirects, ini }
+}
+
+function getSheetMetrics(ini: IniData, element: string): SheetMetrics {
+  // Metrics are named after the part, e.g. TapNote or HoldHead
+  const words = element.split(" ")
+  const part = (words[0] == "Roll" ? "Hold" : words[0]) + words[1]
+  const metrics = ini["notedisplay"] ?? {}
+  const get = (name: string) => metrics[(part + name).toLowerCase()]
+  return {
+    animationLength: parseFloat(get("AnimationLength") ?? "") || 1,
+    vivid: ["1", "true"].includes(get("AnimationIsVivid")?.toLowerCase() ?? ""),
+    colorCount: parseInt(get("NoteColorCount") ?? "") || 1,
+    spacingX: parseFloat(get("NoteColorTextureCoordSpacingX") ?? "") || 0,
+    spacingY: parseFloat(get("NoteColorTextureCoordSpacingY") ?? "") || 0,
+  }
+}
+
+function getNoteskinMetrics(ini: IniData): Partial<NoteskinMetrics> {
+  const metrics = ini["notedisplay"] ?? {}
+  const top = parseFloat(metrics["startdrawingholdbodyoffsetfromhead"])
+  const bottom = parseFloat(metrics["stopdrawingholdbodyoffsetfromtail"])
+  const result: Partial<NoteskinMetrics> = {}
+  if (!isNaN(top)) {
+    result.HoldBodyTopOffset = top
+    result.RollBodyTopOffset = top
+  }
+  if (!isNaN(bottom)) {
+    result.HoldBodyBottomOffset = bottom
+    result.RollBodyBottomOffset = bottom
+  }
+  return result
+}
+
+async function loadTexture(file: SheetFile): Promise<Texture> {
+  const bitmap = await createImageBitmap(await file.handle.getFile())
+  return Texture.from(bitmap)
+}
+
+/**
+ * Splits a frame sheet into the animation frames of one note color. Note
+ * colors are offset from each other by the texture coordinate spacing in
+ * metrics.ini, so only frames that fit the first color are animated.
+ */
+function getFrames(texture: Texture, sheet: Sheet, color: number): Texture[] {
+  const { xFrames, yFrames } = sheet.file
+  const { colorCount, spacingX, spacingY } = sheet.metrics
+  const width = texture.width
+  const height = texture.height
+  const frameWidth = width / xFrames
+  const frameHeight = height / yFrames
+  const maxX = width - spacingX * width * (colorCount - 1)
+  const maxY = height - spacingY * height * (colorCount - 1)
+  let offsetX = spacingX * width * color
+  let offsetY = spacingY * height * color
+  if (
+    offsetX + frameWidth > width + 0.5 ||
+    offsetY + frameHeight > height + 0.5
+  ) {
+    offsetX = 0
+    offsetY = 0
+  }
+  const frames: Texture[] = []
+  for (let y = 0; y < yFrames; y++) {
+    for (let x = 0; x < xFrames; x++) {
+      const inFirstColor =
+        x * frameWidth < maxX - 0.5 && y * frameHeight < maxY - 0.5
+      if (frames.length > 0 && !inFirstColor) continue
+      frames.push(
+        new Texture(
+          texture.baseTexture,
+          new Rectangle(
+            x * frameWidth + offsetX,
+            y * frameHeight + offsetY,
+            frameWidth,
+            frameHeight
+          )
+        )
+      )
+    }
+  }
+  return frames
+}
+
+interface LoadedNoteskin {
+  sheets: Map<string, SheetFile>
+  redirects: Map<string, string>
+  ini: IniData
+}
+
+async function readNoteskin(path: string): Promise<LoadedNoteskin> {
+  const skin = await readNoteskinFiles(path)
+  // Only one level of fallback is followed, which covers skins that are
+  // based on another one
+  const fallback = skin.ini["global"]?.["fallbacknoteskin"]
+  if (fallback && fallback.toLowerCase() != basename(path).toLowerCase()) {
+    const other = await readNoteskinFiles(dirname(path) + "/" + fallback)
+    for (const [name, sheet] of other.sheets)
+      if (!skin.sheets.has(name)) skin.sheets.set(name, sheet)
+    for (const [name, target] of other.redirects)
+      if (!skin.redirects.has(name)) skin.redirects.set(name, target)
+  }
+  return skin
+}
+
+function findFile(skin: LoadedNoteskin, name: string) {
+  let key = name.toLowerCase()
+  for (let i = 0; i < 8; i++) {
+    const sheet = skin.sheets.get(key)
+    if (sheet) return sheet
+    const next = skin.redirects.get(key)
+    if (next === undefined) return undefined
+    key = next
+  }
+  return undefined
+}
+
+function findSheet(
+  skin: LoadedNoteskin,
+  columnName: string,
+  element: keyof NoteskinElements
+): Sheet | undefined {
+  const rotate = ROTATED_ELEMENTS.includes(element)
+  const buttons: [string, number][] = [
+    [columnName, 0],
+    ["Fallback", 0],
+  ]
+  for (const [button, rotations] of Object.entries(ROTATIONS)) {
+    if (button != columnName && columnName in rotations)
+      buttons.push([button, rotate ? rotations[columnName] : 0])
+  }
+  for (const name of ELEMENT_NAMES[element]) {
+    for (const [button, rotation] of buttons) {
+      const file = findFile(skin, `${button} ${name}`)
+      if (file)
+        return { file, rotation, metrics: getSheetMetrics(skin.ini, name) }
+    }
+  }
+  return undefined
+}
+
+function getColumnNames() {
+  return new Set(
+    Object.values(GameTypeRegistry.getTypes()).flatMap(
+      gameType => gameType.columnNames
+    )
+  )
+}
+
+function getNoteColor(quant: number) {
+  const index = NOTE_COLORS.findIndex(division => division >= quant)
+  return index == -1 ? NOTE_COLORS.length - 1 : index
+}
+
+function createNoteSprite(
+  sheet: Sheet,
+  texture: Texture,
+  data: NoteskinElementCreationData
+): NoteskinSprite {
+  const note = data.note
+  const color = note
+    ? Math.min(sheet.metrics.colorCount - 1, getNoteColor(note.quant))
+    : 0
+  const frames = getFrames(texture, sheet, color)
+  const spr = new AnimatedSprite(frames, false)
+  spr.anchor.set(0.5)
+  spr.scale.set(sheet.file.doubleRes ? 0.5 : 1)
+  spr.rotation = (sheet.rotation * Math.PI) / 180
+  if (frames.length > 1) {
+    const length = sheet.metrics.animationLength
+    data.noteskin.onUpdate(spr, renderer => {
+      let beat = renderer.getVisualBeat()
+      if (sheet.metrics.vivid && note) beat += note.beat % 1
+      const progress = (((beat % length) + length) % length) / length
+      spr.gotoAndStop(Math.floor(progress * frames.length) % frames.length)
+    })
+  }
+  return spr
+}
+
+function createNoteFlash(
+  sheet: Sheet,
+  texture: Texture,
+  data: NoteskinElementCreationData
+): NoteskinSprite {
+  const spr = new Sprite(getFrames(texture, sheet, 0)[0])
+  spr.anchor.set(0.5)
+  spr.scale.set(sheet.file.doubleRes ? 0.5 : 1)
+  spr.rotation = (sheet.rotation * Math.PI) / 180
+  spr.alpha = 0
+  let anim: string | undefined
+  const flash = (event: { columnNumber: number }) => {
+    if (event.columnNumber != data.columnNumber) return
+    BezierAnimator.finish(anim)
+    anim = BezierAnimator.animate(
+      spr,
+      { "0": { alpha: 1 }, "1": { alpha: 0 } },
+      0.12
+    )
+  }
+  data.noteskin.on(spr, "hit", flash)
+  data.noteskin.on(spr, "held", flash)
+  return spr
+}
+
+function createGenerators(
+  skin: LoadedNoteskin,
+  textures: Map<SheetFile, Texture>,
+  columnName: string
+): Partial<NoteskinElementGenerators> {
+  const generators: Partial<NoteskinElementGenerators> = {}
+  for (const element of Object.keys(
+    ELEMENT_NAMES
+  ) as (keyof NoteskinElements)[]) {
+    const sheet = findSheet(skin, columnName, element)
+    const texture = sheet ? textures.get(sheet.file) : undefined
+    const frame = () => getFrames(texture!, sheet!, 0)[0]
+    let generator: NoteskinElementGenerators[keyof NoteskinElements]
+    if (element.endsWith("BottomCap")) {
+      generator = () => new HoldTail(texture ? frame() : Texture.EMPTY, 64)
+    } else if (element.endsWith("TopCap")) {
+      generator = data => {
+        if (!texture) return data.noteskin.getBlankSprite()
+        const cap = new HoldTopCap(frame(), 64)
+        cap.anchor.y = 1
+        return cap
+      }
+    } else if (element.endsWith("Body")) {
+      generator = data =>
+        texture ? new HoldBody(frame(), 64) : data.noteskin.getBlankSprite()
+    } else if (element == "NoteFlash") {
+      generator = data =>
+        texture
+          ? createNoteFlash(sheet!, texture, data)
+          : data.noteskin.getBlankSprite()
+    } else {
+      generator = data =>
+        texture
+          ? createNoteSprite(sheet!, texture, data)
+          : data.noteskin.getPlaceholderSprite()
+    }
+    Object.assign(generators, { [element]: generator })
+  }
+  return generators
+}
+
+/**
+ * Loads a StepMania noteskin folder. Images are looked up by StepMania's
+ * naming convention (e.g. "Down Tap Note 4x2 (doubleres).png"), following
+ * .redir files. Lua scripts are not supported, so buttons without their own
+ * images reuse the Down (dance) or DownLeft (pump) images rotated.
+ *
+ * @export
+ * @param {string} path - The path to the noteskin folder.
+ * @return {*}  {Promise<NoteskinOptions>}
+ */
+export async function loadStepManiaNoteskin(
+  path: string
+): Promise<NoteskinOptions> {
+  const skin = await readNoteskin(path)
+  const columnNames = getColumnNames()
+
+  const textures = new Map<SheetFile, Texture>()
+  for (const columnName of columnNames) {
+    for (const element of Object.keys(ELEMENT_NAMES)) {
+      const sheet = findSheet(
+        skin,
+        columnName,
+        element as keyof NoteskinElements
+      )
+      if (sheet && !textures.has(sheet.file))
+        textures.set(sheet.file, await loadTexture(sheet.file))
+    }
+  }
+
+  const elements: NoteskinOptions["elements"] = {}
+  for (const columnName of columnNames)
+    elements[columnName] = createGenerators(skin, textures, columnName)
+  return {
+    elements,
+    metrics: getNoteskinMetrics(skin.ini),
+  }
+}
+
+async function registerStepManiaNoteskin(path: string) {
+  const skin = await readNoteskin(path)
+  const gameTypes = Object.values(GameTypeRegistry.getTypes()).filter(
+    gameType =>
+      gameType.columnNames.every(columnName =>
+        findSheet(skin, columnName, "Tap")
+      )
+  )
+  if (gameTypes.length == 0) return undefined
+  const preview = findSheet(skin, gameTypes[0].columnNames[0], "Receptor")
+  const name = basename(path)
+  const id = "sm:" + name
+  NoteskinRegistry.register({
+    id,
+    gameTypes: gameTypes.map(gameType => gameType.id),
+    load: () => loadStepManiaNoteskin(path),
+    preview: preview
+      ? URL.createObjectURL(await preview.file.handle.getFile())
+      : "",
+    title: name,
+    subtitle: "StepMania noteskin",
+  })
+  return id
+}
+
+function getImportedPaths(): string[] {
+  try {
+    const paths = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]")
+    if (!Array.isArray(paths)) return []
+    return paths.filter(path => typeof path == "string")
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Imports a StepMania noteskin folder and registers it for every game type
+ * it has tap notes for. The folder is remembered and loaded on startup.
+ *
+ * @export
+ * @param {string} path - The path to the noteskin folder.
+ * @return {*}  {(Promise<string | undefined>)} The id of the noteskin.
+ */
+export async function importStepManiaNoteskin(
+  path: string
+): Promise<string | undefined> {
+  const id = await registerStepManiaNoteskin(path)
+  if (id === undefined) {
+    WaterfallManager.createFormatted(
+      `Couldn't find any tap note images in ${basename(path)}`,
+      "error"
+    )
+    return undefined
+  }
+  const paths = getImportedPaths().filter(other => other != path)
+  paths.push(path)
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(paths))
+  return id
+}
+
+/**
+ * Registers the noteskins that were imported in previous sessions.
+ *
+ * @export
+ */
+export async function registerImportedNoteskins() {
+  for (const path of getImportedPaths()) {
+    try {
+      await registerStepManiaNoteskin(path)
+    } catch (err) {
+      console.error(err)
+      WaterfallManager.createFormatted(
+        `Failed to load the noteskin ${basename(path)}`,
+        "warn"
+      )
+    }
+  }
+}
@@ -1,11 +1,12 @@
+import { bsearch } from "../../../util/Math"
 import { Options } from "../../../util/Options"
-import { bsearch, getNoteEnd } from "../../../util/Util"
 import { ChartManager } from "../../ChartManager"
 import { TimingWindowCollection } from "../../play/TimingWindowCollection"
 import {
   HoldNotedataEntry,
   Notedata,
   NotedataEntry,
+  getNoteEnd,
   isHoldNote,
   isTapNote,
 } from "../../sm/NoteTypes"
@@ -217,6 +218,7 @@ export class PumpGameLogic extends BasicGameLogic {
     hitTime: number
   ) {
     note.gameplay!.hasHit = true
+    chartManager.keysounds.play(note)
     const chord = this.chordCohesion.get(note.beat)!
     if (chord.every(note => note.gameplay!.hasHit)) {
       const judge = this.collection.judgeInput(
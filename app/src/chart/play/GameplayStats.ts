@@ -2,6 +2,7 @@ import { median } from "../../util/Math"
 import { Options } from "../../util/Options"
 
 import { ChartManager } from "../ChartManager"
+import { GameLogicRegistry } from "../gameTypes/GameLogicRegistry"
 import {
   HoldNotedataEntry,
   isHoldNote,
@@ -97,7 +98,10 @@ export class GameplayStats {
         Options.play.timingCollection
       ).getMaxDancePoints()
     if (isStandardMissTimingWindow(judge)) {
-      if (!this.chartManager.loadedChart!.gameType.gameLogic.usesHoldTicks) {
+      if (
+        !GameLogicRegistry.getGameLogic(this.chartManager.loadedChart!.gameType)
+          .usesHoldTicks
+      ) {
         this.maxCumulativeDancePoints += notes
           .filter(isHoldNote)
           .reduce((totalDP, note) => {
@@ -224,11 +228,9 @@ export class GameplayStats {
   }
 
   private calculateMaxDP() {
-    this.maxDancePoints =
-      this.chartManager.loadedChart!.gameType.gameLogic.calculateMaxDP(
-        this.notedata,
-        this.chartManager.loadedChart!.timingData
-      )
+    this.maxDancePoints = GameLogicRegistry.getGameLogic(
+      this.chartManager.loadedChart!.gameType
+    ).calculateMaxDP(this.notedata, this.chartManager.loadedChart!.timingData)
   }
 
   /**
@@ -1,14 +1,20 @@
 import { EventHandler } from "../../util/EventHandler"
-import { bsearch, getDivision } from "../../util/Util"
+import { bsearch, getDivision, roundDigit } from "../../util/Math"
 import { GameType, GameTypeRegistry } from "../gameTypes/GameTypeRegistry"
 import { ChartTimingData } from "./ChartTimingData"
-import { CHART_DIFFICULTIES, ChartDifficulty } from "./ChartTypes"
+import {
+  CHART_DIFFICULTIES,
+  ChartDifficulty,
+  RADAR_CATEGORIES,
+  RadarValues,
+} from "./ChartTypes"
 import {
   Notedata,
   NotedataEntry,
   PartialNotedataEntry,
   isHoldNote,
 } from "./NoteTypes"
+import { escapeMSD, unescapeMSD } from "./MSDTokenizer"
 import { Simfile } from "./Simfile"
 import { TIMING_EVENT_NAMES, TimingEventType, TimingType } from "./TimingTypes"
 
@@ -18,6 +24,8 @@ export class Chart {
   difficulty: ChartDifficulty = "Beginner"
   meter = 1
   meterF = 1
+  // The radar values as they were loaded. Complete values are saved until the
+  // computed values change, so resaving an unchanged chart keeps them
   radarValues = "0,0,0,0,0"
   chartName = ""
   chartStyle = ""
@@ -31,6 +39,8 @@ export class Chart {
 
   private _notedataStats!: Record<string, number>
   private _npsGraph!: number[]
+  private _radarValues!: RadarValues
+  private _loadedRadarValues?: string
 
   private _lastBeat = 0
   private _lastSecond = 0
@@ -56,7 +66,7 @@ export class Chart {
       const gameType = GameTypeRegistry.getGameType(dict["STEPSTYPE"])
       if (!gameType) throw Error("Unknown step type " + dict["STEPSTYPE"])
       this.gameType = gameType
-      this.description = dict["DESCRIPTION"] ?? ""
+      this.description = unescapeMSD(dict["DESCRIPTION"] ?? "")
       if (CHART_DIFFICULTIES.includes(dict["DIFFICULTY"] as ChartDifficulty))
         this.difficulty = dict["DIFFICULTY"] as ChartDifficulty
       else throw Error("Unknown chart difficulty " + dict["DIFFICULTY"])
@@ -69,10 +79,10 @@ export class Chart {
         gameType.parser
           .fromString(dict["NOTES"], gameType)
           .map(note => this.computeNote(note)) ?? []
-      this.credit = dict["CREDIT"] ?? ""
-      this.chartName = dict["CHARTNAME"] ?? ""
-      this.chartStyle = dict["CHARTSTYLE"] ?? ""
-      this.music = dict["MUSIC"]
+      this.credit = unescapeMSD(dict["CREDIT"] ?? "")
+      this.chartName = unescapeMSD(dict["CHARTNAME"] ?? "")
+      this.chartStyle = unescapeMSD(dict["CHARTSTYLE"] ?? "")
+      if (dict["MUSIC"] !== undefined) this.music = unescapeMSD(dict["MUSIC"])
       for (const key in dict) {
         if (
           [
@@ -102,7 +112,7 @@ export class Chart {
         const gameType = GameTypeRegistry.getGameType(match[1])
         if (!gameType) throw Error("Unknown step type " + match[1])
         this.gameType = gameType
-        this.description = match[2] ?? ""
+        this.description = unescapeMSD(match[2] ?? "")
         if (CHART_DIFFICULTIES.includes(match[3] as ChartDifficulty))
           this.difficulty = match[3] as ChartDifficulty
         else throw Error("Unknown chart difficulty " + match[3])
@@ -118,7 +128,37 @@ export class Chart {
         throw Error("Failed to load sm chart!")
       }
     }
+    this.loadParityOverrides()
     this.recalculateStats()
+    this._loadedRadarValues = this.formatRadarValues()
+  }
+
+  private loadParityOverrides() {
+    const overrides = this.other_properties["FOOTPARITY"]
+    if (overrides === undefined) return
+    delete this.other_properties["FOOTPARITY"]
+    const feet = new Map<string, string>()
+    for (const entry of overrides.split(",")) {
+      const [beat, col, foot] = entry.trim().split("=")
+      if (foot?.length != 1 || !"LlRr".includes(foot)) continue
+      feet.set(roundDigit(parseFloat(beat), 3) + "-" + parseInt(col), foot)
+    }
+    for (const note of this.notedata) {
+      const foot = feet.get(roundDigit(note.beat, 3) + "-" + note.col)
+      if (foot) note.parityOverride = foot
+    }
+  }
+
+  private formatParityOverrides() {
+    return this.notedata
+      .filter(note => note.parityOverride !== undefined)
+      .map(
+        note =>
+          `${roundDigit(note.beat, 3).toFixed(3)}=${note.col}=${
+            note.parityOverride
+          }`
+      )
+      .join(",")
   }
 
   getNotedataStats() {
@@ -129,6 +169,10 @@ export class Chart {
     return this._npsGraph
   }
 
+  getRadarValues() {
+    return this._radarValues
+  }
+
   getMaxNPS() {
     let max = 0
     for (const measure of this._npsGraph) {
@@ -296,9 +340,28 @@ export class Chart {
       this.notedata,
       this.timingData
     )
+    this._radarValues = this.gameType.parser.getRadarValues(
+      this.notedata,
+      this.timingData
+    )
     this.recalculateLastNote()
   }
 
+  /**
+   * Formats the radar values like StepMania, once for each player.
+   *
+   * @return {*}  {string}
+   * @memberof Chart
+   */
+  formatRadarValues(): string {
+    const values = RADAR_CATEGORIES.map((category, index) =>
+      index < 5
+        ? this._radarValues[category].toFixed(3)
+        : this._radarValues[category].toString()
+    ).join(",")
+    return values + "," + values
+  }
+
   getMusicPath(): string {
     return this.music ?? this.sm.properties.MUSIC ?? ""
   }
@@ -307,7 +370,23 @@ export class Chart {
     return this.difficulty + " " + this.meter
   }
 
-  serialize(type: "sm" | "ssc"): string {
+  // Placeholder or incomplete radar values are always recomputed
+  private getSavedRadarValues(): string {
+    const computed = this.formatRadarValues()
+    const loaded = this.radarValues.split(",").map(value => parseFloat(value))
+    const complete =
+      loaded.length >= RADAR_CATEGORIES.length &&
+      loaded.every(value => !isNaN(value)) &&
+      loaded.some(value => value != 0)
+    return complete && computed == this._loadedRadarValues
+      ? this.radarValues
+      : computed
+  }
+
+  serialize(
+    type: "sm" | "ssc",
+    radarValues = this.getSavedRadarValues()
+  ): string {
     let str =
       "//---------------" +
       this.gameType.id +
@@ -317,25 +396,27 @@ export class Chart {
     if (type == "sm") {
       str += "#NOTES:\n"
       str += `     ${this.gameType.id}:\n`
-      str += `     ${this.description}:\n`
+      str += `     ${escapeMSD(this.description)}:\n`
       str += `     ${this.difficulty}:\n`
       str += `     ${this.meter}:\n`
-      str += `     ${this.radarValues}:\n`
+      str += `     ${radarValues}:\n`
     } else {
       str += "#NOTEDATA:;\n"
-      str += `#CHARTNAME:${this.chartName};\n`
-      str += `#CHARTSTYLE:${this.chartStyle};\n`
-      str += `#CREDIT:${this.credit};\n`
-      if (this.music) str += `#MUSIC:${this.music};\n`
+      str += `#CHARTNAME:${escapeMSD(this.chartName)};\n`
+      str += `#CHARTSTYLE:${escapeMSD(this.chartStyle)};\n`
+      str += `#CREDIT:${escapeMSD(this.credit)};\n`
+      if (this.music) str += `#MUSIC:${escapeMSD(this.music)};\n`
       str += `#STEPSTYPE:${this.gameType.id};\n`
-      str += `#DESCRIPTION:${this.description};\n`
+      str += `#DESCRIPTION:${escapeMSD(this.description)};\n`
       str += `#DIFFICULTY:${this.difficulty};\n`
       str += `#METER:${this.meter};\n`
       str += `#METERF:${this.meterF};\n`
-      str += `#RADARVALUES:${this.radarValues};\n`
+      str += `#RADARVALUES:${radarValues};\n`
       for (const key in this.other_properties) {
         str += `#${key}:${this.other_properties[key]};\n`
       }
+      const parityOverrides = this.formatParityOverrides()
+      if (parityOverrides != "") str += `#FOOTPARITY:${parityOverrides};\n`
       if (!this.timingData.usesChartTiming())
         str += this.timingData.serialize("ssc")
       str += `#NOTES:\n`
@@ -350,6 +431,7 @@ export class Chart {
       this.chartStyle !== "" ||
       this.credit !== "" ||
       this.music !== undefined ||
+      this.notedata.some(note => note.parityOverride !== undefined) ||
       this.timingData.requiresSSC()
     )
   }
@@ -165,6 +165,54 @@ export class ChartTimingData extends TimingData {
     })
   }
 
+  replaceEvents(
+    removed: DeletableEvent[],
+    added: TimingEvent[],
+    keep?: () => boolean
+  ): boolean {
+    let smRemoved: ReturnType<TimingData["_delete"]>
+    let chartRemoved: ReturnType<TimingData["_delete"]>
+    let smResults: ReturnType<TimingData["_insert"]>
+    let chartResults: ReturnType<TimingData["_insert"]>
+    const [smOld, chartOld] = this.splitSM(removed)
+    const [smNew, chartNew] = this.splitSM(added)
+    return ActionHistory.instance.run(
+      {
+        action: app => {
+          smRemoved = this.simfileTimingData._delete(smOld)
+          this.simfileTimingData._delete(smRemoved.errors)
+          chartRemoved = this._delete(chartOld)
+          this._delete(chartRemoved.errors)
+          smResults = this.simfileTimingData._insert(smNew)
+          this.simfileTimingData._delete(smResults.errors)
+          chartResults = this._insert(chartNew)
+          this._delete(chartResults.errors)
+          this.simfileTimingData.reloadCache()
+          app.chartManager.clearSelections()
+          EventHandler.emit("timingModified")
+          EventHandler.emit("chartModified")
+        },
+        undo: app => {
+          this.simfileTimingData._insert(smResults.errors)
+          this.simfileTimingData._delete(smResults.events)
+          this.simfileTimingData._insert(smResults.insertConflicts)
+          this.simfileTimingData._insert(smRemoved.errors)
+          this.simfileTimingData._insert(smRemoved.removedEvents)
+          this._insert(chartResults.errors)
+          this._delete(chartResults.events)
+          this._insert(chartResults.insertConflicts)
+          this._insert(chartRemoved.errors)
+          this._insert(chartRemoved.removedEvents)
+          this.simfileTimingData.reloadCache()
+          app.chartManager.clearSelections()
+          EventHandler.emit("timingModified")
+          EventHandler.emit("chartModified")
+        },
+      },
+      keep
+    )
+  }
+
   getOffset(): number {
     return this.offset ?? this.simfileTimingData.getOffset()
   }
@@ -177,6 +225,12 @@ export class ChartTimingData extends TimingData {
     return this.offset !== undefined
   }
 
+  copyChartTiming(target: ChartTimingData) {
+    target.offset = this.offset
+    Object.assign(target.columns, structuredClone(this.columns))
+    target.reloadCache()
+  }
+
   isPropertyChartSpecific(type: TimingEventType): boolean {
     return type in this.columns
   }
@@ -13,3 +13,23 @@ export type ChartDifficulty =
   | "Hard"
   | "Challenge"
   | "Edit"
+
+// Same order StepMania writes them in #RADARVALUES
+export const RADAR_CATEGORIES = [
+  "Stream",
+  "Voltage",
+  "Air",
+  "Freeze",
+  "Chaos",
+  "Notes",
+  "TapsAndHolds",
+  "Jumps",
+  "Holds",
+  "Mines",
+  "Hands",
+  "Rolls",
+  "Lifts",
+  "Fakes",
+] as const
+export type RadarCategory = (typeof RADAR_CATEGORIES)[number]
+export type RadarValues = Record<RadarCategory, number>
@@ -0,0 +1,215 @@
+import { SimfileDiagnostic } from "./SimfileTypes"
+
+export interface MSDProperty {
+  /** The uppercased tag name. */
+  key: string
+  /** The tag name as it appears in the file. */
+  rawKey: string
+  /** The value with comments removed. Escape sequences are kept. */
+  value: string
+  /** The value split on unescaped colons, with escapes resolved. */
+  params: string[]
+  line: number
+  column: number
+  /** Offset of the # that starts this property. */
+  start: number
+  /** Offset right after the terminating semicolon. */
+  end: number
+  terminated: boolean
+}
+
+export interface MSDTokenizeResult {
+  properties: MSDProperty[]
+  diagnostics: SimfileDiagnostic[]
+}
+
+const MSD_ESCAPE_REGEX = /\\(.)/gs
+
+/**
+ * Resolves MSD escape sequences (\; \: \# \\ etc.) in a value.
+ *
+ * @export
+ * @param {string} value
+ * @return {*}  {string}
+ */
+export function unescapeMSD(value: string): string {
+  return value.replaceAll(MSD_ESCAPE_REGEX, "$1")
+}
+
+/**
+ * Escapes characters that would otherwise end a value or start a comment.
+ *
+ * @export
+ * @param {string} value
+ * @return {*}  {string}
+ */
+export function escapeMSD(value: string): string {
+  return value.replaceAll(/[\\:;]/g, "\\$&").replaceAll("//", "/\\/")
+}
+
+/**
+ * Splits a simfile into its #TAG:value; properties. Follows StepMania's MSD
+ * rules: backslash escapes, // comments, and a # at the start of a line
+ * closes a value that is missing its semicolon.
+ *
+ * @export
+ * @param {string} data
+ * @return {*}  {MSDTokenizeResult}
+ */
+export function tokenizeMSD(data: string): MSDTokenizeResult {
+  const properties: MSDProperty[] = []
+  const diagnostics: SimfileDiagnostic[] = []
+
+  let line = 1
+  let lineStart = 0
+  let i = 0
+
+  let current: MSDProperty | undefined
+  let readingKey = false
+  let param = ""
+
+  const advance = (count = 1) => {
+    for (let n = 0; n < count && i < data.length; n++) {
+      if (data[i] == "\n") {
+        line++
+        lineStart = i + 1
+      }
+      i++
+    }
+  }
+
+  const isLineStart = (index: number) => {
+    for (let j = index - 1; j >= 0; j--) {
+      if (data[j] == "\n") return true
+      if (data[j] != " " && data[j] != "\t" && data[j] != "\r") return false
+    }
+    return true
+  }
+
+  const finishProperty = (terminated: boolean) => {
+    if (!current) return
+    if (readingKey) {
+      current.rawKey = param.trim()
+      current.key = current.rawKey.toUpperCase()
+    } else {
+      current.params.push(param)
+    }
+    if (!terminated && current.params.length > 0) {
+      current.value = current.value.trimEnd()
+      current.params[current.params.length - 1] = current.params
+        .at(-1)!
+        .trimEnd()
+    }
+    current.terminated = terminated
+    current.end = i
+    if (current.key == "") {
+      diagnostics.push({
+        message: `Empty tag name at line ${current.line}`,
+        severity: "warn",
+        line: current.line,
+        column: current.column,
+      })
+    } else {
+      if (!terminated) {
+        diagnostics.push({
+          message: `Unterminated #${current.key} at line ${current.line}`,
+          severity: "warn",
+          line: current.line,
+          column: current.column,
+          property: current.key,
+        })
+      }
+      if (/\s/.test(current.rawKey)) {
+        diagnostics.push({
+          message: `Malformed tag #${current.rawKey.split(/\s/)[0]} at line ${current.line}`,
+          severity: "warn",
+          line: current.line,
+          column: current.column,
+          property: current.key,
+        })
+      }
+      properties.push(current)
+    }
+    current = undefined
+    readingKey = false
+    param = ""
+  }
+
+  while (i < data.length) {
+    const char = data[i]
+
+    // Like StepMania, // always starts a comment. Values that contain //,
+    // like URLs, are written escaped by escapeMSD.
+    if (char == "/" && data[i + 1] == "/") {
+      while (i < data.length && data[i] != "\n") advance()
+      continue
+    }
+
+    if (!current) {
+      if (char == "#") {
+        current = {
+          key: "",
+          rawKey: "",
+          value: "",
+          params: [],
+          line,
+          column: i - lineStart + 1,
+          start: i,
+          end: i,
+          terminated: false,
+        }
+        readingKey = true
+        advance()
+        continue
+      }
+      if (char == "\\") advance(2)
+      else advance()
+      continue
+    }
+
+    // A # as the first character on a line means the last value was
+    // missing its semicolon
+    if (char == "#" && isLineStart(i)) {
+      finishProperty(false)
+      continue
+    }
+
+    if (char == "\\") {
+      const escaped = data[i + 1] ?? ""
+      if (readingKey) param += escaped
+      else {
+        current.value += char + escaped
+        param += escaped
+      }
+      advance(2)
+      continue
+    }
+
+    if (char == ";") {
+      advance()
+      finishProperty(true)
+      continue
+    }
+
+    if (char == ":") {
+      if (readingKey) {
+        current.rawKey = param.trim()
+        current.key = current.rawKey.toUpperCase()
+        readingKey = false
+      } else {
+        current.value += char
+        current.params.push(param)
+      }
+      param = ""
+      advance()
+      continue
+    }
+
+    if (!readingKey) current.value += char
+    param += char
+    advance()
+  }
+  finishProperty(false)
+
+  return { properties, diagnostics }
+}
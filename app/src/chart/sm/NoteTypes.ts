@@ -15,6 +15,8 @@ export interface PartialTapNotedataEntry {
   type: NoteType
   notemods?: string
   keysounds?: string
+  // Foot set by hand (L, l, R, r), used as a constraint by the parity generator
+  parityOverride?: string
 }
 
 export interface PartialHoldNotedataEntry extends PartialTapNotedataEntry {
@@ -58,3 +60,7 @@ export function isHoldNote<T extends PartialNotedataEntry>(
 ): note is Extract<T, { hold: number }> {
   return HOLD_NOTE_TYPES.includes(note.type as HoldNoteType)
 }
+
+export function getNoteEnd(note: PartialNotedataEntry) {
+  return note.beat + (isHoldNote(note) ? note.hold : 0)
+}
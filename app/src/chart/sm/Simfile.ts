@@ -1,10 +1,36 @@
-import { WaterfallManager } from "../../gui/element/WaterfallManager"
 import { Chart } from "./Chart"
 import { CHART_DIFFICULTIES } from "./ChartTypes"
+import {
+  MSDProperty,
+  escapeMSD,
+  tokenizeMSD,
+  unescapeMSD,
+} from "./MSDTokenizer"
 import { SimfileTimingData } from "./SimfileTimingData"
-import { SIMFILE_PROPERTIES, SimfileProperty } from "./SimfileTypes"
+import {
+  SIMFILE_PROPERTIES,
+  SimfileDiagnostic,
+  SimfileProperty,
+} from "./SimfileTypes"
+import { TimingData } from "./TimingData"
 import { TIMING_EVENT_NAMES, TimingEventType, TimingType } from "./TimingTypes"
 
+interface SourceEdit {
+  start: number
+  end: number
+  text: string
+}
+
+interface SimfileSource {
+  type: "sm" | "ssc"
+  data: string
+  /** Properties that are not part of a chart. */
+  header: MSDProperty[]
+  /** The header as it serialized right after loading. */
+  headerSnapshot: string
+  charts: Map<Chart, { props: MSDProperty[]; snapshot: string }>
+}
+
 export class Simfile {
   charts: Record<string, Chart[]> = {}
   _type?: "sm" | "ssc"
@@ -13,6 +39,9 @@ export class Simfile {
   timingData: SimfileTimingData = new SimfileTimingData()
 
   unloadedCharts: (string | { [key: string]: string })[] = []
+  diagnostics: SimfileDiagnostic[] = []
+
+  private source?: SimfileSource
 
   loaded: Promise<void>
 
@@ -23,55 +52,111 @@ export class Simfile {
       else resolve()
 
       file.text().then(data => {
-        //Remove Comments
-        data = data.replaceAll(/\/\/.+/g, "")
-
-        const props = [...data.matchAll(/#([A-Z]+):([^;]*);/g)]
-        let ssc_pair = false
-        let ssc_notedata: { [key: string]: string } = {}
-        const temp_charts = []
-        for (const prop of props) {
-          if ((prop[1] == "NOTEDATA" && type == "ssc") || ssc_pair) {
-            ssc_pair = true
-            ssc_notedata[prop[1]] = prop[2]
-            if (prop[1] == "NOTES") {
-              temp_charts.push(ssc_notedata)
-              ssc_notedata = {}
-              ssc_pair = false
+        const { properties, diagnostics } = tokenizeMSD(data)
+        this.diagnostics = diagnostics
+
+        let sscNotedata: { [key: string]: string } | undefined
+        let sscNotedataProp: MSDProperty | undefined
+        let sscNotedataProps: MSDProperty[] = []
+        const headerProps: MSDProperty[] = []
+        const tempCharts: {
+          data: string | { [key: string]: string }
+          prop: MSDProperty
+          props: MSDProperty[]
+        }[] = []
+        for (const prop of properties) {
+          if (prop.key == "NOTEDATA" && type == "ssc") {
+            if (sscNotedata) {
+              this.diagnostics.push({
+                message: `#NOTEDATA at line ${sscNotedataProp!.line} has no #NOTES`,
+                severity: "warn",
+                line: sscNotedataProp!.line,
+                column: sscNotedataProp!.column,
+                property: "NOTEDATA",
+              })
+            }
+            sscNotedata = {}
+            sscNotedataProp = prop
+            sscNotedataProps = []
+          }
+          if (sscNotedata) {
+            sscNotedata[prop.key] = prop.value
+            sscNotedataProps.push(prop)
+            if (prop.key == "NOTES") {
+              tempCharts.push({
+                data: sscNotedata,
+                prop: sscNotedataProp!,
+                props: sscNotedataProps,
+              })
+              sscNotedata = undefined
+              sscNotedataProp = undefined
             }
-          } else if (prop[1] == "NOTES") {
-            temp_charts.push(prop[2])
+          } else if (prop.key == "NOTES") {
+            tempCharts.push({ data: prop.value, prop, props: [prop] })
           } else {
-            if (SIMFILE_PROPERTIES.includes(prop[1] as SimfileProperty)) {
-              this.properties[prop[1] as SimfileProperty] = prop[2]
+            headerProps.push(prop)
+            if (SIMFILE_PROPERTIES.includes(prop.key as SimfileProperty)) {
+              this.properties[prop.key as SimfileProperty] = unescapeMSD(
+                prop.value
+              )
             } else if (
-              prop[1] == "OFFSET" ||
-              TIMING_EVENT_NAMES.includes(prop[1] as TimingEventType)
+              prop.key == "OFFSET" ||
+              TIMING_EVENT_NAMES.includes(prop.key as TimingEventType)
             ) {
-              this.timingData.parse(prop[1] as TimingType, prop[2])
+              this.timingData.parse(prop.key as TimingType, prop.value)
             } else {
-              this.other_properties[prop[1]] = prop[2]
+              this.other_properties[prop.key] = prop.value
             }
           }
         }
+        if (sscNotedata) {
+          this.diagnostics.push({
+            message: `#NOTEDATA at line ${sscNotedataProp!.line} has no #NOTES`,
+            severity: "warn",
+            line: sscNotedataProp!.line,
+            column: sscNotedataProp!.column,
+            property: "NOTEDATA",
+          })
+        }
 
         this.charts = {}
+        const sourceCharts: SimfileSource["charts"] = new Map()
 
-        for (const data of temp_charts) {
+        for (const { data, prop, props } of tempCharts) {
           let chart
           try {
             chart = new Chart(this, data)
           } catch (error) {
             this.unloadedCharts.push(data)
-            WaterfallManager.createFormatted(
-              error instanceof Error ? error.message : String(error),
-              "warn"
-            )
+            this.diagnostics.push({
+              message:
+                (error instanceof Error ? error.message : String(error)) +
+                ` (chart at line ${prop.line})`,
+              severity: "error",
+              line: prop.line,
+              column: prop.column,
+              property: prop.key,
+            })
             continue
           }
           this.addChart(chart)
+          sourceCharts.set(chart, { props, snapshot: "" })
         }
+        this.diagnostics.sort((a, b) => a.line - b.line || a.column - b.column)
         this.timingData.reloadCache()
+
+        if (this._type) {
+          // Snapshot the loaded radar values so recomputed ones get saved
+          for (const [chart, source] of sourceCharts)
+            source.snapshot = chart.serialize(this._type, chart.radarValues)
+          this.source = {
+            type: this._type,
+            data,
+            header: headerProps,
+            headerSnapshot: this.serializeHeader(this._type),
+            charts: sourceCharts,
+          }
+        }
         resolve()
       })
     })
@@ -101,7 +186,88 @@ export class Simfile {
     return true
   }
 
-  serialize(type: "sm" | "ssc"): string {
+  /**
+   * Serializes the simfile. With preserveFormatting, the file this simfile was
+   * loaded from is used as a base and only properties and charts that changed
+   * since loading are rewritten, so comments, whitespace, property order and
+   * unknown tags survive. This only applies when saving to the same file type.
+   */
+  serialize(type: "sm" | "ssc", preserveFormatting = false): string {
+    if (preserveFormatting && this.source?.type == type)
+      return this.serializeRoundTrip(this.source)
+    let str = this.serializeHeader(type)
+    str += "\n"
+    for (const gameType in this.charts) {
+      for (const chart of this.charts[gameType]) {
+        str += chart.serialize(type) + "\n"
+      }
+    }
+    for (const chart of this.unloadedCharts) {
+      if (typeof chart == "string") {
+        str += "#NOTES:" + chart + "\n"
+      } else {
+        str +=
+          "//---------------" +
+          chart.STEPSTYPE +
+          " - " +
+          chart.DESCRIPTION +
+          "---------------\n"
+        str += "#NOTEDATA:;\n"
+        str += `#CHARTNAME:${chart.CHARTNAME};\n`
+        str += `#CHARTSTYLE:${chart.CHARTSTYLE};\n`
+        str += `#CREDIT:${chart.CREDIT};\n`
+        if (chart.MUSIC) str += `#MUSIC:${chart.MUSIC};\n`
+        str += `#STEPSTYPE:${chart.STEPSTYPE};\n`
+        str += `#DESCRIPTION:${chart.DESCRIPTION};\n`
+        str += `#DIFFICULTY:${chart.DIFFICULTY};\n`
+        str += `#METER:${chart.METER};\n`
+        str += `#METERF:${chart.METERF ?? chart.METER};\n`
+        str += `#RADARVALUES:${chart.RADARVALUES};\n`
+        str += `#NOTES:`
+        for (const prop in chart) {
+          if (
+            [
+              "NOTEDATA",
+              "CHARTNAME",
+              "CHARTSTYLE",
+              "CREDIT",
+              "MUSIC",
+              "STEPSTYPE",
+              "DESCRIPTION",
+              "DIFFICULTY",
+              "METER",
+              "METERF",
+              "RADARVALUES",
+            ].includes(prop)
+          )
+            continue
+          str += `#${prop}:${chart[prop]};\n\n`
+        }
+      }
+    }
+    return str
+  }
+
+  /**
+   * Serializes an .sm containing only the given charts, with the given timing
+   * written in place of the simfile timing.
+   */
+  serializeLegacySM(
+    timingData: TimingData,
+    charts: Chart[],
+    music = this.properties.MUSIC
+  ): string {
+    let str = this.serializeHeader("sm", timingData, music)
+    str += "\n"
+    for (const chart of charts) str += chart.serialize("sm") + "\n"
+    return str
+  }
+
+  private serializeHeader(
+    type: "sm" | "ssc",
+    timingData: TimingData = this.timingData,
+    music = this.properties.MUSIC
+  ): string {
     let str = ""
     if (type == "sm") {
       if (this.other_properties["NITGVERSION"])
@@ -112,8 +278,10 @@ export class Simfile {
       str += this.formatProperty("TITLE", this.properties.TITLE)
       str += this.formatProperty("SUBTITLE", this.properties.SUBTITLE)
       str += this.formatProperty("ARTIST", this.properties.ARTIST)
-      str += this.formatProperty("MUSIC", this.properties.MUSIC ?? "")
-      str += this.formatProperty("BANNER", this.properties.GENRE)
+      str += this.formatProperty("GENRE", this.properties.GENRE)
+      str += this.formatProperty("CREDIT", this.properties.CREDIT)
+      str += this.formatProperty("MUSIC", music ?? "")
+      str += this.formatProperty("BANNER", this.properties.BANNER)
       str += this.formatProperty("BACKGROUND", this.properties.BACKGROUND)
       str += this.formatProperty("LYRICSPATH", this.properties.LYRICSPATH)
       str += this.formatProperty("CDTITLE", this.properties.CDTITLE)
@@ -153,63 +321,153 @@ export class Simfile {
       str += this.formatProperty("SAMPLESTART", this.properties.SAMPLESTART)
       str += this.formatProperty("SAMPLELENGTH", this.properties.SAMPLELENGTH)
     }
-    str += this.timingData.serialize(type)
+    str += timingData.serialize(type)
     for (const prop in this.other_properties) {
       if (prop == "VERSION" || prop == "NITGVERSION") continue
       str += this.formatProperty(prop, this.other_properties[prop])
     }
-    str += "\n"
-    for (const gameType in this.charts) {
-      for (const chart of this.charts[gameType]) {
-        str += chart.serialize(type) + "\n"
+    return str
+  }
+
+  private serializeRoundTrip(source: SimfileSource): string {
+    const data = source.data
+    const edits: SourceEdit[] = []
+
+    edits.push(
+      ...this.diffProperties(
+        data,
+        source.header,
+        source.headerSnapshot,
+        this.serializeHeader(source.type)
+      )
+    )
+
+    const loadedCharts = Object.values(this.charts).flat()
+    let chartsEnd = source.header.at(-1)?.end ?? 0
+    for (const [chart, { props, snapshot }] of source.charts) {
+      chartsEnd = Math.max(chartsEnd, props.at(-1)!.end)
+      if (!loadedCharts.includes(chart)) {
+        edits.push(
+          this.removeSpan(data, props[0].start, props.at(-1)!.end, true)
+        )
+        continue
       }
+      edits.push(
+        ...this.diffProperties(
+          data,
+          props,
+          snapshot,
+          chart.serialize(source.type)
+        )
+      )
     }
-    for (const chart of this.unloadedCharts) {
-      if (typeof chart == "string") {
-        str += "#NOTES:" + chart + "\n"
-      } else {
-        str +=
-          "//---------------" +
-          chart.STEPSTYPE +
-          " - " +
-          chart.DESCRIPTION +
-          "---------------\n"
-        str += "#NOTEDATA:;\n"
-        str += `#CHARTNAME:${chart.CHARTNAME};\n`
-        str += `#CHARTSTYLE:${chart.CHARTSTYLE};\n`
-        str += `#CREDIT:${chart.CREDIT};\n`
-        if (chart.MUSIC) str += `#MUSIC:${chart.MUSIC};\n`
-        str += `#STEPSTYPE:${chart.STEPSTYPE};\n`
-        str += `#DESCRIPTION:${chart.DESCRIPTION};\n`
-        str += `#DIFFICULTY:${chart.DIFFICULTY};\n`
-        str += `#METER:${chart.METER};\n`
-        str += `#METERF:${chart.METERF ?? chart.METER};\n`
-        str += `#RADARVALUES:${chart.RADARVALUES};\n`
-        str += `#NOTES:`
-        for (const prop in chart) {
-          if (
-            [
-              "NOTEDATA",
-              "CHARTNAME",
-              "CHARTSTYLE",
-              "CREDIT",
-              "MUSIC",
-              "STEPSTYPE",
-              "DESCRIPTION",
-              "DIFFICULTY",
-              "METER",
-              "METERF",
-              "RADARVALUES",
-            ].includes(prop)
-          )
-            continue
-          str += `#${prop}:${chart[prop]};\n\n`
-        }
-      }
+
+    const newCharts = loadedCharts
+      .filter(chart => !source.charts.has(chart))
+      .map(chart => chart.serialize(source.type))
+    if (newCharts.length > 0) {
+      edits.push({
+        start: chartsEnd,
+        end: chartsEnd,
+        text: "\n\n" + newCharts.join("\n").trimEnd(),
+      })
     }
+
+    let str = data
+    edits
+      .sort((a, b) => b.start - a.start || b.end - a.end)
+      .forEach(edit => {
+        str = str.slice(0, edit.start) + edit.text + str.slice(edit.end)
+      })
     return str
   }
 
+  /**
+   * Compares two serializations of the same properties and returns the edits
+   * needed to bring the original properties up to date. Properties that
+   * serialize the same as they did on load are left untouched.
+   */
+  private diffProperties(
+    data: string,
+    props: MSDProperty[],
+    before: string,
+    after: string
+  ): SourceEdit[] {
+    const toMap = (str: string) => {
+      const map = new Map<string, string>()
+      for (const prop of tokenizeMSD(str).properties) {
+        if (!map.has(prop.key))
+          map.set(prop.key, str.slice(prop.start, prop.end))
+      }
+      return map
+    }
+    const beforeMap = toMap(before)
+    const afterMap = toMap(after)
+    const edits: SourceEdit[] = []
+    const seen = new Set<string>()
+
+    for (const prop of props) {
+      const duplicate = seen.has(prop.key)
+      seen.add(prop.key)
+      const oldText = beforeMap.get(prop.key)
+      const newText = afterMap.get(prop.key)
+      if (oldText === newText) continue
+      if (newText === undefined || duplicate) {
+        edits.push(this.removeSpan(data, prop.start, prop.end))
+        continue
+      }
+      edits.push({ start: prop.start, end: prop.end, text: newText })
+    }
+
+    // Insert new properties after the closest property that already exists,
+    // skipping empty properties the serializer always writes. Only the first
+    // occurrence of a duplicated property is kept, so anchor on that one.
+    const keys = [...afterMap.keys()]
+    const inserts = new Map<number, string[]>()
+    keys.forEach((key, index) => {
+      if (seen.has(key) || beforeMap.get(key) === afterMap.get(key)) return
+      const previous = keys
+        .slice(0, index)
+        .reverse()
+        .map(prevKey => props.find(prop => prop.key == prevKey))
+        .find(prop => prop !== undefined)
+      // -1 marks the start of the section
+      const position = previous?.end ?? -1
+      if (!inserts.has(position)) inserts.set(position, [])
+      inserts.get(position)!.push(afterMap.get(key)!)
+    })
+    for (const [position, texts] of inserts) {
+      const text = texts.join("\n")
+      if (position != -1)
+        edits.push({ start: position, end: position, text: "\n" + text })
+      else {
+        const start = props[0]?.start ?? 0
+        edits.push({ start, end: start, text: text + "\n" })
+      }
+    }
+    return edits
+  }
+
+  private removeSpan(
+    data: string,
+    start: number,
+    end: number,
+    includeComment = false
+  ): SourceEdit {
+    // Take the rest of the line with it if nothing else is on it
+    const rest = /^[ \t]*\r?\n/.exec(data.slice(end))
+    if (rest) end += rest[0].length
+    const lineStart = data.lastIndexOf("\n", start - 1) + 1
+    if (includeComment && data.slice(lineStart, start).trim() == "") {
+      // Charts usually have a //--- comment line above them
+      start = lineStart
+      const prevLineStart = data.lastIndexOf("\n", lineStart - 2) + 1
+      if (data.slice(prevLineStart, lineStart).trim().startsWith("//"))
+        start = prevLineStart
+    }
+    return { start, end, text: "" }
+  }
+
   usesChartTiming(): boolean {
     for (const type in this.charts) {
       for (const chart of this.charts[type]) {
@@ -219,6 +477,26 @@ export class Simfile {
     return false
   }
 
+  /**
+   * Returns the sample files listed in #KEYSOUNDS. Notes refer to these by
+   * their index.
+   */
+  getKeysounds(): string[] {
+    const keysounds = this.other_properties["KEYSOUNDS"]
+    if (!keysounds) return []
+    return unescapeMSD(keysounds)
+      .split(",")
+      .map(keysound => keysound.trim())
+  }
+
+  setKeysounds(keysounds: string[]) {
+    if (keysounds.length == 0) {
+      delete this.other_properties["KEYSOUNDS"]
+      return
+    }
+    this.other_properties["KEYSOUNDS"] = escapeMSD(keysounds.join(","))
+  }
+
   requiresSSC(): boolean {
     if (this.timingData.requiresSSC()) return true
     if (this.usesChartTiming()) return true
@@ -232,6 +510,8 @@ export class Simfile {
 
   private formatProperty(name: string, item: string | number | undefined) {
     item ||= ""
+    if (SIMFILE_PROPERTIES.includes(name as SimfileProperty))
+      item = escapeMSD(item + "")
     return "#" + name.toUpperCase() + ":" + item + ";\n"
   }
 }
@@ -4,6 +4,7 @@ import { Chart } from "./Chart"
 import { ChartTimingData } from "./ChartTimingData"
 import { TimingData } from "./TimingData"
 import {
+  BPMTimingEvent,
   DeletableEvent,
   TIMING_EVENT_NAMES,
   TimingEvent,
@@ -122,4 +123,32 @@ export class SimfileTimingData extends TimingData {
       },
     })
   }
+
+  replaceBPMs(events: BPMTimingEvent[], offset: number): void {
+    const oldOffset = this.offset
+    let removed: ReturnType<TimingData["_delete"]>
+    let results: ReturnType<TimingData["_insert"]>
+    ActionHistory.instance.run({
+      action: app => {
+        removed = this._delete([...this.getColumn("BPMS").events])
+        results = this._insert(events)
+        this._delete(results.errors)
+        this.offset = offset
+        this.reloadCache()
+        app.chartManager.clearSelections()
+        EventHandler.emit("timingModified")
+        EventHandler.emit("chartModified")
+      },
+      undo: app => {
+        this._insert(results.errors)
+        this._delete(results.events)
+        this._insert(removed.removedEvents)
+        this.offset = oldOffset
+        this.reloadCache()
+        app.chartManager.clearSelections()
+        EventHandler.emit("timingModified")
+        EventHandler.emit("chartModified")
+      },
+    })
+  }
 }
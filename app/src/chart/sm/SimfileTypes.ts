@@ -23,3 +23,11 @@ export const SIMFILE_PROPERTIES = [
 ] as const
 
 export type SimfileProperty = (typeof SIMFILE_PROPERTIES)[number]
+
+export interface SimfileDiagnostic {
+  message: string
+  severity: "warn" | "error"
+  line: number
+  column: number
+  property?: string
+}
@@ -1,7 +1,6 @@
 import { ActionHistory } from "../../util/ActionHistory"
 import { EventHandler } from "../../util/EventHandler"
-import { clamp, roundDigit } from "../../util/Math"
-import { bsearch } from "../../util/Util"
+import { bsearch, clamp, roundDigit } from "../../util/Math"
 import { ChartTimingData } from "./ChartTimingData"
 import {
   BGChangeTimingEvent,
@@ -1260,6 +1259,39 @@ export abstract class TimingData {
     return Math.max(event.secondClamp, event.secondAfter + timeElapsed)
   }
 
+  // Finds the BPM the section from startBeat to beat needs for the beat to
+  // land on the given second. Everything before startBeat keeps its time.
+  // There should be no BPM changes inside the section.
+  getBPMForBeatAtSecond(
+    startBeat: number,
+    beat: number,
+    second: number
+  ): number | undefined {
+    if (!isFinite(second) || beat <= startBeat) return undefined
+    if (this._cache.beatTiming == undefined) this.buildBeatTimingDataCache()
+    const cache = this._cache.beatTiming!
+    const bpm = this.binarySearch(cache, "beat", startBeat).bpm
+
+    // Count the beats in the section that aren't warped over
+    let beats = 0
+    for (let i = 0; i < cache.length; i++) {
+      const start = Math.max(startBeat, cache[i].beat)
+      const end = Math.min(beat, cache[i + 1]?.beat ?? Infinity)
+      if (end > start && !cache[i].warped) beats += end - start
+    }
+    if (beats <= 0) return undefined
+
+    // Stops and delays in the section take the same time at any BPM
+    const sectionStart = this.getSecondsFromBeat(startBeat, "after")
+    const pauses =
+      this.getSecondsFromBeat(beat, "noclamp") -
+      sectionStart -
+      (beats * 60) / bpm
+    const length = second - sectionStart - pauses
+    if (length <= 0) return undefined
+    return (beats * 60) / length
+  }
+
   isBeatWarped(beat: number): boolean {
     if (!isFinite(beat)) return false
     const flooredBeat = Math.floor(beat * 1000) / 1000
@@ -23,3 +23,5 @@ export const IMG_EXT = [
   ".tiff",
   ".webp",
 ]
+
+export const SIMFILE_EXT = [".sm", ".ssc", ".osu", ".dwi"]
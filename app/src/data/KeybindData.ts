@@ -2,17 +2,28 @@ import { App } from "../App"
 import { EditMode, EditTimingMode } from "../chart/ChartManager"
 import { isHoldNote } from "../chart/sm/NoteTypes"
 import { WaterfallManager } from "../gui/element/WaterfallManager"
+import { ChartLintWindow } from "../gui/window/ChartLintWindow"
 import { ChartListWindow } from "../gui/window/ChartListWindow"
+import { DiagnosticsWindow } from "../gui/window/DiagnosticsWindow"
 import { EQWindow } from "../gui/window/EQWindow"
 import { ExportNotedataWindow } from "../gui/window/ExportNotedataWindow"
 import { GameplayKeybindWindow } from "../gui/window/GameplayKeybindWindow"
 import { InitialWindow } from "../gui/window/InitialWindow"
 import { KeybindWindow } from "../gui/window/KeybindWindow"
+import { KeysoundWindow } from "../gui/window/KeysoundWindow"
 import { NewSongWindow } from "../gui/window/NewSongWindow"
+import { NoteInspectorWindow } from "../gui/window/NoteInspectorWindow"
 import { NoteskinWindow } from "../gui/window/NoteskinWindow"
 import { OffsetWindow } from "../gui/window/OffsetWindow"
+import { PackWindow } from "../gui/window/PackWindow"
+import { PatternGeneratorWindow } from "../gui/window/PatternGeneratorWindow"
+import { ReduceChartWindow } from "../gui/window/ReduceChartWindow"
 import { SMPropertiesWindow } from "../gui/window/SMPropertiesWindow"
+import { SyncBiasWindow } from "../gui/window/SyncBiasWindow"
 import { SyncWindow } from "../gui/window/SyncWindow"
+import { TapTempoWindow } from "../gui/window/TapTempoWindow"
+import { TechReportWindow } from "../gui/window/TechReportWindow"
+import { TimingConversionWindow } from "../gui/window/TimingConversionWindow"
 import { ThemeEditorWindow } from "../gui/window/ThemeEditorWindow"
 import { ThemeSelectionWindow } from "../gui/window/ThemeSelectionWindow"
 import { TimingDataWindow } from "../gui/window/TimingDataWindow"
@@ -21,8 +32,11 @@ import { ActionHistory } from "../util/ActionHistory"
 import { Flags } from "../util/Flags"
 import { roundDigit } from "../util/Math"
 import { Options } from "../util/Options"
+import { ParityGenerator } from "../util/ParityGenerator"
+import { formatStreamBreakdown } from "../util/StreamBreakdown"
 import { FileHandler } from "../util/file-handler/FileHandler"
 import { WebFileHandler } from "../util/file-handler/WebFileHandler"
+import { SIMFILE_EXT } from "./FileData"
 
 export interface Keybind {
   label: string
@@ -217,7 +231,7 @@ export const KEYBIND_DATA: { [key: string]: Keybind } = {
       if (window.nw) {
         const fileSelector = document.createElement("input")
         fileSelector.type = "file"
-        fileSelector.accept = ".sm,.ssc"
+        fileSelector.accept = SIMFILE_EXT.join(",")
         fileSelector.onchange = () =>
           app.chartManager.loadSM(fileSelector.value)
         fileSelector.click()
@@ -226,6 +240,13 @@ export const KEYBIND_DATA: { [key: string]: Keybind } = {
       }
     },
   },
+  openPack: {
+    label: "Open pack...",
+    bindLabel: "Open pack",
+    combos: [],
+    disabled: app => !app.chartManager.loadedSM || !Flags.openWindows,
+    callback: app => app.windowManager.openWindow(new PackWindow(app)),
+  },
   songProperties: {
     label: "Song properties...",
     bindLabel: "Open song properties",
@@ -258,6 +279,33 @@ export const KEYBIND_DATA: { [key: string]: Keybind } = {
       )
     },
   },
+  exportOsu: {
+    label: "Export chart to osu!mania",
+    combos: [],
+    disabled: app =>
+      !app.chartManager.loadedChart ||
+      app.chartManager.smPath.startsWith("https://") ||
+      app.chartManager.smPath.startsWith("http://"),
+    callback: app => app.chartManager.exportOsu(),
+  },
+  exportDWI: {
+    label: "Export song to DWI",
+    combos: [],
+    disabled: app =>
+      !app.chartManager.loadedSM ||
+      app.chartManager.smPath.startsWith("https://") ||
+      app.chartManager.smPath.startsWith("http://"),
+    callback: app => app.chartManager.exportDWI(),
+  },
+  exportLegacySM: {
+    label: "Export legacy SM",
+    combos: [],
+    disabled: app =>
+      !app.chartManager.loadedSM ||
+      app.chartManager.smPath.startsWith("https://") ||
+      app.chartManager.smPath.startsWith("http://"),
+    callback: app => app.chartManager.exportLegacySM(),
+  },
   exportNotedata: {
     label: "Export to notedata...",
     bindLabel: "Export to notedata",
@@ -275,12 +323,62 @@ export const KEYBIND_DATA: { [key: string]: Keybind } = {
     disabled: app => !app.chartManager.loadedSM || !Flags.openWindows,
     callback: app => app.windowManager.openWindow(new ChartListWindow(app)),
   },
+  simfileDiagnostics: {
+    label: "Load diagnostics...",
+    bindLabel: "Open simfile load diagnostics",
+    combos: [],
+    disabled: app => !app.chartManager.loadedSM || !Flags.openWindows,
+    callback: app => app.windowManager.openWindow(new DiagnosticsWindow(app)),
+  },
+  chartLint: {
+    label: "Lint chart...",
+    bindLabel: "Open chart lint",
+    combos: [],
+    disabled: app => !app.chartManager.loadedChart || !Flags.openWindows,
+    callback: app => app.windowManager.openWindow(new ChartLintWindow(app)),
+  },
+  techReport: {
+    label: "Tech report...",
+    bindLabel: "Open tech report",
+    combos: [],
+    disabled: app => !app.chartManager.loadedChart || !Flags.openWindows,
+    callback: app => app.windowManager.openWindow(new TechReportWindow(app)),
+  },
+  reduceChart: {
+    label: "Generate easier chart...",
+    bindLabel: "Open easier chart generator",
+    combos: [],
+    disabled: app => !app.chartManager.loadedChart || !Flags.openWindows,
+    callback: app =>
+      app.windowManager.openWindow(
+        new ReduceChartWindow(app, app.chartManager.loadedChart!)
+      ),
+  },
+  copyStreamBreakdown: {
+    label: "Copy stream breakdown",
+    combos: [],
+    disabled: app => !app.chartManager.loadedChart,
+    callback: async app => {
+      await navigator.clipboard.writeText(
+        formatStreamBreakdown(app.chartManager.loadedChart!)
+      )
+      WaterfallManager.create("Copied the stream breakdown")
+    },
+  },
   timingDataRow: {
     label: "Edit timing data at row",
     combos: [{ key: "T", mods: [Modifier.SHIFT] }],
     disabled: app => !app.chartManager.chartView || !Flags.openWindows,
     callback: app => app.windowManager.openWindow(new TimingDataWindow(app)),
   },
+  convertTiming: {
+    label: "Convert timing events...",
+    bindLabel: "Open timing conversion",
+    combos: [],
+    disabled: app => !app.chartManager.loadedChart || !Flags.openWindows,
+    callback: app =>
+      app.windowManager.openWindow(new TimingConversionWindow(app)),
+  },
   selectRegion: {
     label: "Select region",
     combos: [{ key: "Tab", mods: [] }],
@@ -588,6 +686,28 @@ export const KEYBIND_DATA: { [key: string]: Keybind } = {
       )
     },
   },
+  showParity: {
+    label: "Show foot parity",
+    combos: [],
+    disabled: false,
+    callback: app => {
+      Options.chart.showParity = !Options.chart.showParity
+      app.chartManager.updateParity()
+      WaterfallManager.create(
+        "Foot Parity: " + (Options.chart.showParity ? "on" : "off")
+      )
+      const gameType = app.chartManager.loadedChart?.gameType.id
+      if (
+        Options.chart.showParity &&
+        gameType &&
+        !ParityGenerator.isSupported(gameType)
+      )
+        WaterfallManager.createFormatted(
+          "Foot parity isn't available for " + gameType,
+          "warn"
+        )
+    },
+  },
   showEq: {
     label: "Equalizer",
     combos: [{ key: "E", mods: [Modifier.SHIFT] }],
@@ -600,6 +720,20 @@ export const KEYBIND_DATA: { [key: string]: Keybind } = {
     disabled: app => !app.chartManager.chartAudio || !Flags.openWindows,
     callback: app => app.windowManager.openWindow(new SyncWindow(app)),
   },
+  tapTempo: {
+    label: "Tap tempo...",
+    bindLabel: "Open tap tempo",
+    combos: [],
+    disabled: app => !app.chartManager.chartView || !Flags.openWindows,
+    callback: app => app.windowManager.openWindow(new TapTempoWindow(app)),
+  },
+  syncBias: {
+    label: "Shift offset / sync bias...",
+    bindLabel: "Open offset shift",
+    combos: [],
+    disabled: app => !app.chartManager.loadedSM || !Flags.openWindows,
+    callback: app => app.windowManager.openWindow(new SyncBiasWindow(app)),
+  },
   previousNoteType: {
     label: "Previous note type",
     combos: [{ key: "N", mods: [] }],
@@ -824,6 +958,35 @@ export const KEYBIND_DATA: { [key: string]: Keybind } = {
       })
     },
   },
+  setKeysound: {
+    label: "Set keysound...",
+    bindLabel: "Set keysound",
+    combos: [],
+    disabled: app =>
+      app.chartManager.selection.notes.length == 0 ||
+      app.chartManager.getMode() != EditMode.Edit,
+    callback: app => app.windowManager.openWindow(new KeysoundWindow(app)),
+  },
+  noteInspector: {
+    label: "Note inspector...",
+    bindLabel: "Open note inspector",
+    combos: [],
+    disabled: app =>
+      !app.chartManager.loadedChart ||
+      app.chartManager.getMode() != EditMode.Edit,
+    callback: app => app.windowManager.openWindow(new NoteInspectorWindow(app)),
+  },
+  patternGenerator: {
+    label: "Generate pattern...",
+    bindLabel: "Open pattern generator",
+    combos: [],
+    disabled: app =>
+      !app.chartManager.loadedChart ||
+      app.chartManager.getMode() != EditMode.Edit ||
+      !Flags.openWindows,
+    callback: app =>
+      app.windowManager.openWindow(new PatternGeneratorWindow(app)),
+  },
   mirrorHorizontally: {
     label: "Horizontally",
     bindLabel: "Mirror horizontally",
@@ -1177,6 +1340,51 @@ export const KEYBIND_DATA: { [key: string]: Keybind } = {
       })
     },
   },
+  parityLeftHeel: {
+    label: "Left heel",
+    bindLabel: "Set foot to left heel",
+    combos: [],
+    disabled: app =>
+      app.chartManager.selection.notes.length == 0 ||
+      app.chartManager.getMode() != EditMode.Edit,
+    callback: app => app.chartManager.setSelectionParity("L"),
+  },
+  parityLeftToe: {
+    label: "Left toe",
+    bindLabel: "Set foot to left toe",
+    combos: [],
+    disabled: app =>
+      app.chartManager.selection.notes.length == 0 ||
+      app.chartManager.getMode() != EditMode.Edit,
+    callback: app => app.chartManager.setSelectionParity("l"),
+  },
+  parityRightHeel: {
+    label: "Right heel",
+    bindLabel: "Set foot to right heel",
+    combos: [],
+    disabled: app =>
+      app.chartManager.selection.notes.length == 0 ||
+      app.chartManager.getMode() != EditMode.Edit,
+    callback: app => app.chartManager.setSelectionParity("R"),
+  },
+  parityRightToe: {
+    label: "Right toe",
+    bindLabel: "Set foot to right toe",
+    combos: [],
+    disabled: app =>
+      app.chartManager.selection.notes.length == 0 ||
+      app.chartManager.getMode() != EditMode.Edit,
+    callback: app => app.chartManager.setSelectionParity("r"),
+  },
+  parityClear: {
+    label: "Automatic",
+    bindLabel: "Clear foot override",
+    combos: [],
+    disabled: app =>
+      app.chartManager.selection.notes.length == 0 ||
+      app.chartManager.getMode() != EditMode.Edit,
+    callback: app => app.chartManager.setSelectionParity(),
+  },
   delete: {
     label: "Delete",
     combos: [
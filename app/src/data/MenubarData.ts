@@ -49,6 +49,10 @@ export const MENUBAR_DATA: { [key: string]: MenuMain } = {
         type: "selection",
         id: "openSong",
       },
+      {
+        type: "selection",
+        id: "openPack",
+      },
       {
         type: "separator",
       },
@@ -60,6 +64,18 @@ export const MENUBAR_DATA: { [key: string]: MenuMain } = {
         type: "selection",
         id: "export",
       },
+      {
+        type: "selection",
+        id: "exportOsu",
+      },
+      {
+        type: "selection",
+        id: "exportDWI",
+      },
+      {
+        type: "selection",
+        id: "exportLegacySM",
+      },
     ],
   },
   edit: {
@@ -272,6 +288,11 @@ export const MENUBAR_DATA: { [key: string]: MenuMain } = {
         id: "doSpeedChanges",
         checked: () => Options.chart.doSpeedChanges,
       },
+      {
+        type: "checkbox",
+        id: "showParity",
+        checked: () => Options.chart.showParity,
+      },
     ],
   },
   chart: {
@@ -300,6 +321,26 @@ export const MENUBAR_DATA: { [key: string]: MenuMain } = {
         type: "selection",
         id: "songProperties",
       },
+      {
+        type: "selection",
+        id: "simfileDiagnostics",
+      },
+      {
+        type: "selection",
+        id: "chartLint",
+      },
+      {
+        type: "selection",
+        id: "techReport",
+      },
+      {
+        type: "selection",
+        id: "reduceChart",
+      },
+      {
+        type: "selection",
+        id: "copyStreamBreakdown",
+      },
       {
         type: "separator",
       },
@@ -307,6 +348,10 @@ export const MENUBAR_DATA: { [key: string]: MenuMain } = {
         type: "selection",
         id: "timingDataRow",
       },
+      {
+        type: "selection",
+        id: "convertTiming",
+      },
     ],
   },
   selection: {
@@ -439,6 +484,35 @@ export const MENUBAR_DATA: { [key: string]: MenuMain } = {
           },
         ],
       },
+      {
+        type: "dropdown",
+        title: "Foot",
+        options: [
+          {
+            type: "selection",
+            id: "parityLeftHeel",
+          },
+          {
+            type: "selection",
+            id: "parityLeftToe",
+          },
+          {
+            type: "selection",
+            id: "parityRightHeel",
+          },
+          {
+            type: "selection",
+            id: "parityRightToe",
+          },
+          {
+            type: "separator",
+          },
+          {
+            type: "selection",
+            id: "parityClear",
+          },
+        ],
+      },
       {
         type: "separator",
       },
@@ -446,6 +520,18 @@ export const MENUBAR_DATA: { [key: string]: MenuMain } = {
         type: "selection",
         id: "setSongPreview",
       },
+      {
+        type: "selection",
+        id: "setKeysound",
+      },
+      {
+        type: "selection",
+        id: "noteInspector",
+      },
+      {
+        type: "selection",
+        id: "patternGenerator",
+      },
       {
         type: "separator",
       },
@@ -478,6 +564,14 @@ export const MENUBAR_DATA: { [key: string]: MenuMain } = {
         type: "selection",
         id: "detectSync",
       },
+      {
+        type: "selection",
+        id: "tapTempo",
+      },
+      {
+        type: "selection",
+        id: "syncBias",
+      },
       {
         type: "separator",
       },
@@ -205,6 +205,16 @@ export const USER_OPTIONS_WINDOW_DATA: UserOption[] = [
             tooltip:
               "Warn before exiting the editor if you have unsaved changes.",
           },
+          {
+            type: "item",
+            label: "Preserve simfile formatting",
+            id: "general.preserveFormatting",
+            input: {
+              type: "checkbox",
+            },
+            tooltip:
+              "When saving, only rewrite the parts of the simfile that changed. Comments, whitespace, property order and unknown tags are kept as they were.",
+          },
           {
             type: "item",
             label: "Spinner step",
@@ -640,6 +650,16 @@ export const USER_OPTIONS_WINDOW_DATA: UserOption[] = [
               type: "checkbox",
             },
           },
+          {
+            type: "item",
+            label: "Play keysounds",
+            id: "audio.keysounds",
+            input: {
+              type: "checkbox",
+            },
+            tooltip:
+              "Plays the keysounds assigned to notes when they pass the receptors or are hit",
+          },
         ],
       },
       {
@@ -1,13 +1,13 @@
 import { Container, FederatedPointerEvent, Sprite, Texture } from "pixi.js"
 import { EditMode } from "../../chart/ChartManager"
 import { Chart } from "../../chart/sm/Chart"
+import { getNoteEnd } from "../../chart/sm/NoteTypes"
 import { BetterRoundedRect } from "../../util/BetterRoundedRect"
 import { assignTint } from "../../util/Color"
 import { EventHandler } from "../../util/EventHandler"
 import { Flags } from "../../util/Flags"
 import { clamp, lerp, maxArr, minArr, unlerp } from "../../util/Math"
 import { Options } from "../../util/Options"
-import { getNoteEnd } from "../../util/Util"
 import { Widget } from "./Widget"
 import { WidgetManager } from "./WidgetManager"
 
@@ -1,6 +1,7 @@
 import bezier from "bezier-easing"
 import { BitmapText, Container, Sprite, Texture } from "pixi.js"
 import { EditMode } from "../../chart/ChartManager"
+import { GameLogicRegistry } from "../../chart/gameTypes/GameLogicRegistry"
 import {
   TimingWindowCollection,
   isHoldDroppedTimingWindow,
@@ -446,9 +447,10 @@ export class PlayInfoWidget extends Widget {
       count.anchor.y = 0.5
       count.anchor.x = 1
     }
-    const ht =
-      this.manager.chartManager.loadedChart?.gameType.gameLogic.usesHoldTicks ??
-      false
+    const loadedChart = this.manager.chartManager.loadedChart
+    const ht = loadedChart
+      ? GameLogicRegistry.getGameLogic(loadedChart.gameType).usesHoldTicks
+      : false
     const extraNumWindows = (ht ? 0 : collection.getHoldWindows().length) + 2
     i = 0
     for (const window of ht
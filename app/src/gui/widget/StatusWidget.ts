@@ -717,6 +717,7 @@ export class StatusWidget extends Widget {
           this.addTimingEvent.classList.add("active")
           break
         case EditTimingMode.Edit:
+        case EditTimingMode.Tap:
           this.addTimingEvent.classList.remove("active")
           this.offset.tabIndex = 0
       }
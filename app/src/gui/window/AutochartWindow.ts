@@ -0,0 +1,136 @@
+import { App } from "../../App"
+import { GameTypeRegistry } from "../../chart/gameTypes/GameTypeRegistry"
+import { CHART_DIFFICULTIES, ChartDifficulty } from "../../chart/sm/ChartTypes"
+import { AUTOCHART_PATTERNS, OnsetData, autochart } from "../../util/Autochart"
+import { PatternMode } from "../../util/PatternGenerator"
+import { Dropdown } from "../element/Dropdown"
+import { WaterfallManager } from "../element/WaterfallManager"
+import { Window } from "./Window"
+
+export class AutochartWindow extends Window {
+  app: App
+
+  private readonly onsets: OnsetData
+
+  // The last settings used, for the next chart
+  private static gameType?: string
+  private static difficulty: ChartDifficulty = "Medium"
+  private static meter = 6
+  private static pattern: PatternMode = "Stream"
+  private static holds = true
+
+  constructor(app: App, onsets: OnsetData) {
+    super({
+      title: "Autochart",
+      width: 300,
+      height: 250,
+      win_id: "autochart",
+    })
+    this.app = app
+    this.onsets = onsets
+    this.initView()
+  }
+
+  initView(): void {
+    this.viewElement.replaceChildren()
+
+    const padding = document.createElement("div")
+    padding.classList.add("padding", "pattern-container")
+
+    const grid = document.createElement("div")
+    grid.classList.add("pattern-grid")
+
+    const gameTypes = GameTypeRegistry.getPriority().map(
+      gameType => gameType.id
+    )
+    const gameType = Dropdown.create(
+      gameTypes,
+      AutochartWindow.gameType ??
+        this.app.chartManager.loadedChart?.gameType.id ??
+        gameTypes[0]
+    )
+    gameType.onChange(value => (AutochartWindow.gameType = value))
+    this.addRow(grid, "Game type", gameType.view)
+
+    const difficulty = Dropdown.create(
+      CHART_DIFFICULTIES,
+      AutochartWindow.difficulty
+    )
+    difficulty.onChange(value => (AutochartWindow.difficulty = value))
+    this.addRow(grid, "Difficulty", difficulty.view)
+
+    const meter = document.createElement("input")
+    meter.type = "number"
+    meter.min = "1"
+    meter.step = "1"
+    meter.value = AutochartWindow.meter.toString()
+    meter.onchange = () => {
+      const value = parseInt(meter.value)
+      if (isNaN(value) || value < 1) {
+        meter.value = AutochartWindow.meter.toString()
+        return
+      }
+      AutochartWindow.meter = value
+    }
+    this.addRow(grid, "Meter", meter)
+
+    const pattern = Dropdown.create(AUTOCHART_PATTERNS, AutochartWindow.pattern)
+    pattern.onChange(value => (AutochartWindow.pattern = value))
+    this.addRow(grid, "Pattern", pattern.view)
+
+    const holds = document.createElement("input")
+    holds.type = "checkbox"
+    holds.checked = AutochartWindow.holds
+    holds.onchange = () => (AutochartWindow.holds = holds.checked)
+    this.addRow(grid, "Holds", holds)
+
+    padding.appendChild(grid)
+
+    const info = document.createElement("div")
+    info.classList.add("pattern-info")
+    info.innerText =
+      "Adds a new chart made from the onsets and the current timing data."
+    padding.appendChild(info)
+
+    const create = document.createElement("button")
+    create.innerText = "Create chart"
+    create.onclick = () => this.createChart(gameType.value)
+    padding.appendChild(create)
+
+    this.viewElement.appendChild(padding)
+  }
+
+  private addRow(grid: HTMLDivElement, label: string, element: HTMLElement) {
+    const labelElement = document.createElement("div")
+    labelElement.innerText = label
+    grid.appendChild(labelElement)
+    grid.appendChild(element)
+  }
+
+  private createChart(gameTypeId: string) {
+    const sm = this.app.chartManager.loadedSM
+    const gameType = GameTypeRegistry.getGameType(gameTypeId)
+    if (!sm || !gameType) return
+    const chart = autochart(sm, this.onsets, {
+      gameType,
+      difficulty: AutochartWindow.difficulty,
+      meter: AutochartWindow.meter,
+      pattern: AutochartWindow.pattern,
+      holds: AutochartWindow.holds,
+    })
+    if (chart.getNotedata().length == 0) {
+      WaterfallManager.createFormatted(
+        "No onsets were found to chart. Try lowering the onset threshold",
+        "warn"
+      )
+      return
+    }
+    sm.addChart(chart)
+    this.app.chartManager.loadChart(chart)
+    WaterfallManager.create(
+      `Added a ${chart.difficulty} ${chart.meter} with ${
+        chart.getNotedata().length
+      } notes`
+    )
+  }
+}
@@ -0,0 +1,120 @@
+import { App } from "../../App"
+import { LintIssue, lintChart } from "../../util/ChartLinter"
+import { EventHandler } from "../../util/EventHandler"
+import { roundDigit } from "../../util/Math"
+import { Window } from "./Window"
+
+export class ChartLintWindow extends Window {
+  app: App
+
+  // Kept between windows so the threshold doesn't reset every time
+  private static jackThreshold = 100
+
+  private changeHandler = () => this.updateIssues()
+
+  constructor(app: App) {
+    super({
+      title: "Chart Lint",
+      width: 500,
+      height: 320,
+      win_id: "chart_lint",
+    })
+    this.app = app
+    this.initView()
+    EventHandler.on("chartModified", this.changeHandler)
+    EventHandler.on("timingModified", this.changeHandler)
+    EventHandler.on("chartLoaded", this.changeHandler)
+    EventHandler.on("audioLoaded", this.changeHandler)
+  }
+
+  onClose(): void {
+    EventHandler.off("chartModified", this.changeHandler)
+    EventHandler.off("timingModified", this.changeHandler)
+    EventHandler.off("chartLoaded", this.changeHandler)
+    EventHandler.off("audioLoaded", this.changeHandler)
+  }
+
+  initView(): void {
+    this.viewElement.replaceChildren()
+
+    const padding = document.createElement("div")
+    padding.classList.add("padding", "lint-container")
+
+    const header = document.createElement("div")
+    header.classList.add("lint-header")
+
+    const label = document.createElement("div")
+    label.classList.add("lint-label")
+    header.appendChild(label)
+
+    const thresholdLabel = document.createElement("div")
+    thresholdLabel.innerText = "Jacks under"
+    const threshold = document.createElement("input")
+    threshold.type = "number"
+    threshold.min = "0"
+    threshold.value = ChartLintWindow.jackThreshold.toString()
+    threshold.onchange = () => {
+      const value = parseFloat(threshold.value)
+      if (isNaN(value) || value < 0) {
+        threshold.value = ChartLintWindow.jackThreshold.toString()
+        return
+      }
+      ChartLintWindow.jackThreshold = value
+      this.updateIssues()
+    }
+    const thresholdUnit = document.createElement("div")
+    thresholdUnit.innerText = "ms"
+    header.appendChild(thresholdLabel)
+    header.appendChild(threshold)
+    header.appendChild(thresholdUnit)
+
+    padding.appendChild(header)
+
+    const scroller = document.createElement("div")
+    scroller.classList.add("lint-scroller")
+    padding.appendChild(scroller)
+
+    this.viewElement.appendChild(padding)
+    this.updateIssues()
+  }
+
+  private updateIssues() {
+    const chart = this.app.chartManager.loadedChart
+    const issues = chart
+      ? lintChart(chart, {
+          songLength: this.app.chartManager.chartAudio.getSongLength(),
+          jackThreshold: ChartLintWindow.jackThreshold / 1000,
+        })
+      : []
+
+    const label = this.viewElement.querySelector<HTMLElement>(".lint-label")
+    if (label)
+      label.innerText = !chart
+        ? "No chart loaded"
+        : issues.length == 0
+          ? "No problems found"
+          : issues.length + (issues.length == 1 ? " problem" : " problems")
+
+    this.viewElement
+      .querySelector(".lint-scroller")
+      ?.replaceChildren(...issues.map(issue => this.createItem(issue)))
+  }
+
+  private createItem(issue: LintIssue) {
+    const item = document.createElement("div")
+    item.classList.add("lint-item")
+    item.onclick = () => this.app.chartManager.setBeat(issue.beat)
+
+    const beat = document.createElement("div")
+    beat.classList.add("lint-beat")
+    beat.innerText = roundDigit(issue.beat, 3).toString()
+
+    const message = document.createElement("div")
+    message.classList.add("lint-message")
+    message.innerText = issue.message
+
+    item.appendChild(beat)
+    item.appendChild(message)
+    return item
+  }
+}
@@ -4,11 +4,16 @@ import {
   GameTypeRegistry,
 } from "../../chart/gameTypes/GameTypeRegistry"
 import { Chart } from "../../chart/sm/Chart"
-import { CHART_DIFFICULTIES } from "../../chart/sm/ChartTypes"
+import { CHART_DIFFICULTIES, RADAR_CATEGORIES } from "../../chart/sm/ChartTypes"
 import { CHART_PROPERTIES_DATA } from "../../data/ChartListWindowData"
 import { ActionHistory } from "../../util/ActionHistory"
+import {
+  DifficultyEstimate,
+  estimateDifficulty,
+} from "../../util/DifficultyEstimator"
 import { EventHandler } from "../../util/EventHandler"
 import { clamp } from "../../util/Math"
+import { formatStreamBreakdown } from "../../util/StreamBreakdown"
 import { parseString } from "../../util/Util"
 import { Dropdown } from "../element/Dropdown"
 import { ConfirmationWindow } from "./ConfirmationWindow"
@@ -25,6 +30,9 @@ export class ChartListWindow extends Window {
   private chartList?: HTMLDivElement
   private chartInfo?: HTMLDivElement
   private gameTypeDropdown?: Dropdown<string>
+  // Estimating runs the parity generator, so only redo it after an edit
+  private estimates = new Map<Chart, DifficultyEstimate>()
+  private changeHandler = () => this.estimates.clear()
   private smLoadHandler = () => {
     this.gameTypeDropdown!.setItems(
       GameTypeRegistry.getPriority().map(gameType => {
@@ -57,6 +65,8 @@ export class ChartListWindow extends Window {
       GameTypeRegistry.getPriority()[0]
     this.initView()
     EventHandler.on("smLoadedAfter", this.smLoadHandler)
+    EventHandler.on("chartModified", this.changeHandler)
+    EventHandler.on("timingModified", this.changeHandler)
   }
 
   initView() {
@@ -112,6 +122,8 @@ export class ChartListWindow extends Window {
 
   onClose(): void {
     EventHandler.off("smLoadedAfter", this.smLoadHandler)
+    EventHandler.off("chartModified", this.changeHandler)
+    EventHandler.off("timingModified", this.changeHandler)
   }
 
   private loadCharts() {
@@ -305,8 +317,30 @@ export class ChartListWindow extends Window {
     const properties = document.createElement("div")
     properties.classList.add("chart-properties")
 
+    if (!this.estimates.has(chart))
+      this.estimates.set(chart, estimateDifficulty(chart))
+    const estimate = this.estimates.get(chart)!
+    const estimateLabel = document.createElement("div")
+    estimateLabel.classList.add("chart-estimate")
+    estimateLabel.innerText = "est. " + estimate.meter
+    estimateLabel.title = "Estimated meter"
+
+    const meterWrapper = document.createElement("div")
+    meterWrapper.classList.add("chart-meter-wrapper")
+    meterWrapper.appendChild(estimateLabel)
+    meterWrapper.appendChild(meter)
+
     main.appendChild(difficulty.view)
-    main.appendChild(meter)
+    main.appendChild(meterWrapper)
+
+    const estimateBreakdown = document.createElement("div")
+    estimateBreakdown.classList.add("chart-estimate-breakdown")
+    estimateBreakdown.innerText = estimate.breakdown
+      .map(
+        (part, index) =>
+          part.label + " " + (index > 0 ? "+" : "") + part.value.toFixed(1)
+      )
+      .join(", ")
 
     Object.values(CHART_PROPERTIES_DATA).forEach(entry => {
       const label = document.createElement("div")
@@ -352,6 +386,35 @@ export class ChartListWindow extends Window {
       grid.appendChild(item)
     })
 
+    const radarValues = chart.getRadarValues()
+    const radar = document.createElement("div")
+    radar.classList.add("chart-info-grid")
+    RADAR_CATEGORIES.slice(0, 5).forEach(category => {
+      const item = document.createElement("div")
+      item.classList.add("chart-info-grid-item")
+      const label = document.createElement("div")
+      label.innerText = category
+      label.classList.add("title", "chart-info-grid-label")
+      const value = document.createElement("div")
+      value.innerText = radarValues[category].toFixed(3)
+      value.classList.add("title", "chart-info-grid-count")
+      item.appendChild(label)
+      item.appendChild(value)
+      radar.appendChild(item)
+    })
+
+    const breakdownText = formatStreamBreakdown(chart)
+    const breakdown = document.createElement("div")
+    breakdown.classList.add("chart-breakdown")
+    const breakdownLabel = document.createElement("div")
+    breakdownLabel.classList.add("chart-breakdown-text")
+    breakdownLabel.innerText = breakdownText
+    const breakdownCopy = document.createElement("button")
+    breakdownCopy.innerText = "Copy"
+    breakdownCopy.onclick = () => navigator.clipboard.writeText(breakdownText)
+    breakdown.appendChild(breakdownLabel)
+    breakdown.appendChild(breakdownCopy)
+
     //Menu Button Options
     const menu_options = document.createElement("div")
     menu_options.classList.add("menu-options")
@@ -416,6 +479,15 @@ export class ChartListWindow extends Window {
     deleteButton.classList.add("delete")
     menu_options.append(deleteButton)
 
-    this.chartInfo!.replaceChildren(main, properties, nps, grid, menu_options)
+    this.chartInfo!.replaceChildren(
+      main,
+      estimateBreakdown,
+      properties,
+      nps,
+      grid,
+      radar,
+      breakdown,
+      menu_options
+    )
   }
 }
@@ -0,0 +1,73 @@
+import { App } from "../../App"
+import { SimfileDiagnostic } from "../../chart/sm/SimfileTypes"
+import { EventHandler } from "../../util/EventHandler"
+import { basename } from "../../util/Path"
+import { Window } from "./Window"
+
+export class DiagnosticsWindow extends Window {
+  app: App
+
+  private smLoadHandler = () => this.initView()
+
+  constructor(app: App) {
+    super({
+      title: "Simfile Diagnostics",
+      width: 500,
+      height: 300,
+      win_id: "diagnostics",
+    })
+    this.app = app
+    this.initView()
+    EventHandler.on("smLoadedAfter", this.smLoadHandler)
+  }
+
+  initView(): void {
+    this.viewElement.replaceChildren()
+
+    const padding = document.createElement("div")
+    padding.classList.add("padding", "diagnostics-container")
+
+    const diagnostics = this.app.chartManager.loadedSM?.diagnostics ?? []
+
+    const label = document.createElement("div")
+    label.classList.add("diagnostics-label")
+    label.innerText =
+      basename(this.app.chartManager.smPath) +
+      " - " +
+      (diagnostics.length == 0
+        ? "no problems found"
+        : diagnostics.length +
+          (diagnostics.length == 1 ? " problem" : " problems"))
+    padding.appendChild(label)
+
+    const scroller = document.createElement("div")
+    scroller.classList.add("diagnostics-scroller")
+    scroller.replaceChildren(
+      ...diagnostics.map(diagnostic => this.createItem(diagnostic))
+    )
+    padding.appendChild(scroller)
+
+    this.viewElement.appendChild(padding)
+  }
+
+  private createItem(diagnostic: SimfileDiagnostic) {
+    const item = document.createElement("div")
+    item.classList.add("diagnostics-item", "diagnostics-" + diagnostic.severity)
+
+    const position = document.createElement("div")
+    position.classList.add("diagnostics-position")
+    position.innerText = diagnostic.line + ":" + diagnostic.column
+
+    const message = document.createElement("div")
+    message.classList.add("diagnostics-message")
+    message.innerText = diagnostic.message
+
+    item.appendChild(position)
+    item.appendChild(message)
+    return item
+  }
+
+  onClose(): void {
+    EventHandler.off("smLoadedAfter", this.smLoadHandler)
+  }
+}
@@ -1,7 +1,7 @@
 import { showDirectoryPicker, showOpenFilePicker } from "file-system-access"
 import scrollIntoView from "scroll-into-view-if-needed"
 import { App } from "../../App"
-import { AUDIO_EXT, IMG_EXT } from "../../data/FileData"
+import { AUDIO_EXT, IMG_EXT, SIMFILE_EXT } from "../../data/FileData"
 import { basename, dirname, extname } from "../../util/Path"
 import { FileHandler } from "../../util/file-handler/FileHandler"
 import { WebFileHandler } from "../../util/file-handler/WebFileHandler"
@@ -11,6 +11,7 @@ import { Window } from "./Window"
 interface DirectoryWindowOptions {
   title: string
   accepted_file_types?: string[]
+  select_folder?: boolean
   callback?: (path: string) => void
   onload?: () => void
   disableClose?: boolean
@@ -264,7 +265,10 @@ export class DirectoryWindow extends Window {
     const path = element.dataset.path
     button.disabled = true
     if (!path) return
-    button.disabled = !this.acceptableFileType(path)
+    button.disabled = !this.acceptableFileType(
+      path,
+      element.parentElement!.classList.contains("folder")
+    )
     this.viewElement.querySelector<HTMLButtonElement>(".delete")!.disabled =
       false
     this.viewElement.querySelector<HTMLButtonElement>(".rename")!.disabled =
@@ -350,7 +354,12 @@ export class DirectoryWindow extends Window {
       this.viewElement.querySelector(".info.selected")
     const path = selected?.dataset.path
     if (!path) return
-    if (this.acceptableFileType(path)) {
+    if (
+      this.acceptableFileType(
+        path,
+        selected.parentElement!.classList.contains("folder")
+      )
+    ) {
       this.dirOptions.callback?.(path)
       window.removeEventListener("keydown", this.keyHandler, true)
       window.removeEventListener("drop", this.dropHandler, true)
@@ -359,7 +368,8 @@ export class DirectoryWindow extends Window {
     }
   }
 
-  private acceptableFileType(name: string) {
+  private acceptableFileType(name: string, isFolder = false) {
+    if (this.dirOptions.select_folder) return isFolder
     return (
       this.dirOptions.accepted_file_types!.length == 0 ||
       this.dirOptions.accepted_file_types!.includes(extname(name))
@@ -377,7 +387,7 @@ export class DirectoryWindow extends Window {
     if (AUDIO_EXT.includes(ext)) {
       return "VOLUME"
     }
-    if ([".sm", ".ssc"].includes(ext)) return "SM_FILE"
+    if (SIMFILE_EXT.includes(ext)) return "SM_FILE"
     return "UNKNOWN_FILE"
   }
 
@@ -1,5 +1,6 @@
 import scrollIntoView from "scroll-into-view-if-needed"
 import { App } from "../../App"
+import { SIMFILE_EXT } from "../../data/FileData"
 
 import { EventHandler } from "../../util/EventHandler"
 import { RecentFileHandler } from "../../util/RecentFileHandler"
@@ -79,7 +80,7 @@ export class InitialWindow extends Window {
       if (window.nw) {
         const fileSelector = document.createElement("input")
         fileSelector.type = "file"
-        fileSelector.accept = ".sm,.ssc"
+        fileSelector.accept = SIMFILE_EXT.join(",")
         fileSelector.onchange = () => {
           this.app.chartManager.loadSM(fileSelector.value)
           this.closeWindow()
@@ -88,8 +89,8 @@ export class InitialWindow extends Window {
       } else {
         this.app.windowManager.openWindow(
           new DirectoryWindow(this.app, {
-            title: "Select an sm/ssc file...",
-            accepted_file_types: [".sm", ".ssc"],
+            title: "Select an sm/ssc/osu/dwi file...",
+            accepted_file_types: SIMFILE_EXT,
             disableClose: true,
             callback: (path: string) => {
               this.app.chartManager.loadSM(path)
@@ -0,0 +1,127 @@
+import { App } from "../../App"
+import { AUDIO_EXT } from "../../data/FileData"
+import { EventHandler } from "../../util/EventHandler"
+import { dirname } from "../../util/Path"
+import { FileHandler } from "../../util/file-handler/FileHandler"
+import { DirectoryWindow } from "./DirectoryWindow"
+import { Window } from "./Window"
+
+export class KeysoundWindow extends Window {
+  app: App
+
+  private changeHandler = () => this.initView()
+
+  constructor(app: App) {
+    super({
+      title: "Set Keysound",
+      width: 350,
+      height: 300,
+      win_id: "keysounds",
+    })
+    this.app = app
+    this.initView()
+    EventHandler.on("smLoadedAfter", this.changeHandler)
+    EventHandler.on("undo", this.changeHandler)
+    EventHandler.on("redo", this.changeHandler)
+  }
+
+  initView(): void {
+    this.viewElement.replaceChildren()
+
+    const padding = document.createElement("div")
+    padding.classList.add("padding", "keysound-container")
+
+    const label = document.createElement("div")
+    label.classList.add("label")
+    label.innerText = "Click a keysound to assign it to the selected notes"
+    padding.appendChild(label)
+
+    const keysounds = this.app.chartManager.loadedSM?.getKeysounds() ?? []
+    const scroller = document.createElement("div")
+    scroller.classList.add("keysound-scroller")
+    scroller.appendChild(this.createItem("None"))
+    keysounds.forEach((file, index) =>
+      scroller.appendChild(this.createItem(file, index))
+    )
+    padding.appendChild(scroller)
+
+    const menuOptions = document.createElement("div")
+    menuOptions.classList.add("menu-options")
+    const addButton = document.createElement("button")
+    addButton.innerText = "Add file..."
+    addButton.onclick = () => this.openFileDialog()
+    menuOptions.appendChild(addButton)
+    padding.appendChild(menuOptions)
+
+    this.viewElement.appendChild(padding)
+  }
+
+  private createItem(file: string, index?: number) {
+    const item = document.createElement("div")
+    item.classList.add("keysound-item")
+
+    const position = document.createElement("div")
+    position.classList.add("keysound-index")
+    position.innerText = index?.toString() ?? "-"
+
+    const name = document.createElement("div")
+    name.classList.add("keysound-name")
+    name.innerText = file
+
+    item.onclick = () => this.app.chartManager.setSelectionKeysound(index)
+    item.appendChild(position)
+    item.appendChild(name)
+    return item
+  }
+
+  private openFileDialog() {
+    const dir = dirname(this.app.chartManager.smPath)
+    if (window.nw) {
+      const fileSelector = document.createElement("input")
+      fileSelector.type = "file"
+      fileSelector.accept = AUDIO_EXT.join(",")
+      fileSelector.onchange = () =>
+        this.addKeysound(FileHandler.getRelativePath(dir, fileSelector.value))
+      fileSelector.click()
+    } else {
+      this.app.windowManager.openWindow(
+        new DirectoryWindow(
+          this.app,
+          {
+            title: "Select a keysound file...",
+            accepted_file_types: AUDIO_EXT,
+            disableClose: true,
+            callback: (path: string) =>
+              this.addKeysound(FileHandler.getRelativePath(dir, path)),
+          },
+          this.app.chartManager.smPath
+        )
+      )
+    }
+  }
+
+  private addKeysound(file: string) {
+    const sm = this.app.chartManager.loadedSM
+    if (!sm) return
+    const lastKeysounds = sm.getKeysounds()
+    if (lastKeysounds.includes(file)) return
+    this.app.actionHistory.run({
+      action: () => {
+        sm.setKeysounds([...lastKeysounds, file])
+        this.app.chartManager.keysounds.load()
+        this.initView()
+      },
+      undo: () => {
+        sm.setKeysounds(lastKeysounds)
+        this.app.chartManager.keysounds.load()
+        this.initView()
+      },
+    })
+  }
+
+  onClose(): void {
+    EventHandler.off("smLoadedAfter", this.changeHandler)
+    EventHandler.off("undo", this.changeHandler)
+    EventHandler.off("redo", this.changeHandler)
+  }
+}
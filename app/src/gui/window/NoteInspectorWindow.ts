@@ -0,0 +1,140 @@
+import { App } from "../../App"
+import { NotedataEntry } from "../../chart/sm/NoteTypes"
+import { EventHandler } from "../../util/EventHandler"
+import { roundDigit } from "../../util/Math"
+import { Window } from "./Window"
+
+// Listing thousands of notes makes the window slow to rebuild
+const MAX_LISTED_NOTES = 200
+
+export class NoteInspectorWindow extends Window {
+  app: App
+
+  private lastSelection: NotedataEntry[] = []
+  private lastSelectionLength = 0
+  private readonly interval
+  private changeHandler = () => this.initView()
+
+  constructor(app: App) {
+    super({
+      title: "Note Inspector",
+      width: 400,
+      height: 320,
+      disableClose: false,
+      win_id: "note_inspector",
+      blocking: false,
+    })
+    this.app = app
+    this.initView()
+    this.interval = setInterval(() => {
+      const notes = this.app.chartManager.selection.notes
+      if (
+        notes != this.lastSelection ||
+        notes.length != this.lastSelectionLength
+      )
+        this.initView()
+    }, 17)
+    EventHandler.on("chartModified", this.changeHandler)
+    EventHandler.on("chartLoaded", this.changeHandler)
+  }
+
+  onClose() {
+    EventHandler.off("chartModified", this.changeHandler)
+    EventHandler.off("chartLoaded", this.changeHandler)
+    clearInterval(this.interval)
+  }
+
+  initView(): void {
+    const notes = this.app.chartManager.selection.notes
+    this.lastSelection = notes
+    this.lastSelectionLength = notes.length
+
+    this.viewElement.replaceChildren()
+    const padding = document.createElement("div")
+    padding.classList.add("padding", "note-inspector")
+
+    const label = document.createElement("div")
+    label.classList.add("note-inspector-label")
+    label.innerText =
+      notes.length == 0
+        ? "No notes selected"
+        : notes.length +
+          (notes.length == 1 ? " note selected" : " notes selected")
+    padding.appendChild(label)
+
+    const modsRow = document.createElement("div")
+    modsRow.classList.add("note-inspector-mods")
+    const modsLabel = document.createElement("div")
+    modsLabel.classList.add("label")
+    modsLabel.innerText = "Mods"
+    modsRow.appendChild(modsLabel)
+    modsRow.appendChild(this.createModsInput(notes))
+    padding.appendChild(modsRow)
+
+    const scroller = document.createElement("div")
+    scroller.classList.add("note-inspector-scroller")
+    scroller.replaceChildren(
+      ...notes.slice(0, MAX_LISTED_NOTES).map(note => this.createItem(note))
+    )
+    if (notes.length > MAX_LISTED_NOTES) {
+      const more = document.createElement("div")
+      more.classList.add("note-inspector-item")
+      more.innerText = `${notes.length - MAX_LISTED_NOTES} more...`
+      scroller.appendChild(more)
+    }
+    padding.appendChild(scroller)
+
+    this.viewElement.appendChild(padding)
+  }
+
+  private createModsInput(notes: NotedataEntry[]) {
+    const values = new Set(notes.map(note => note.notemods ?? ""))
+    const input = document.createElement("input")
+    input.type = "text"
+    input.autocomplete = "off"
+    input.spellcheck = false
+    input.disabled = notes.length == 0
+    input.value = values.size == 1 ? [...values][0] : ""
+    input.placeholder = values.size > 1 ? "Multiple values" : "No mods"
+    input.onkeydown = ev => {
+      if (ev.key == "Enter") input.blur()
+    }
+    input.onblur = () => {
+      // Braces and brackets would break the note row when saved
+      const mods = input.value.replaceAll(/[{}[\]]/g, "").trim()
+      if (values.size > 1 && mods == "") return
+      if (values.size == 1 && values.has(mods)) return
+      this.app.chartManager.setSelectionNotemods(mods)
+    }
+    return input
+  }
+
+  private createItem(note: NotedataEntry) {
+    const item = document.createElement("div")
+    item.classList.add("note-inspector-item")
+
+    const beat = document.createElement("div")
+    beat.classList.add("note-inspector-beat")
+    beat.innerText = roundDigit(note.beat, 3).toString()
+
+    const column = document.createElement("div")
+    column.classList.add("note-inspector-column")
+    column.innerText =
+      this.app.chartManager.loadedChart?.gameType.columnNames[note.col] ??
+      note.col.toString()
+
+    const type = document.createElement("div")
+    type.classList.add("note-inspector-column")
+    type.innerText = note.type
+
+    const mods = document.createElement("div")
+    mods.classList.add("note-inspector-value")
+    mods.innerText = note.notemods ?? ""
+
+    item.appendChild(beat)
+    item.appendChild(column)
+    item.appendChild(type)
+    item.appendChild(mods)
+    return item
+  }
+}
@@ -1,7 +1,11 @@
 import { App } from "../../App"
 import { NoteskinRegistry } from "../../chart/gameTypes/noteskin/NoteskinRegistry"
+import { importStepManiaNoteskin } from "../../chart/gameTypes/noteskin/StepManiaNoteskin"
 import { EventHandler } from "../../util/EventHandler"
 import { Options } from "../../util/Options"
+import { dirname } from "../../util/Path"
+import { Icons } from "../Icons"
+import { DirectoryWindow } from "./DirectoryWindow"
 import { Window } from "./Window"
 
 import placeholderPreview from "../../../assets/preview.png"
@@ -42,6 +46,9 @@ export class NoteskinWindow extends Window {
     const padding = document.createElement("div")
     padding.classList.add("padding")
 
+    const searchContainer = document.createElement("div")
+    searchContainer.classList.add("pref-search")
+
     const searchBar = document.createElement("input")
     searchBar.classList.add("pref-search-bar")
     searchBar.type = "text"
@@ -51,11 +58,19 @@ export class NoteskinWindow extends Window {
       this.filterGrid(searchBar.value)
     }
 
+    const imp = document.createElement("button")
+    imp.appendChild(Icons.getIcon("UPLOAD", 16))
+    imp.appendChild(document.createTextNode("Import"))
+    imp.title = "Import a StepMania noteskin folder"
+    imp.onclick = () => this.openImportDialog()
+
+    searchContainer.replaceChildren(searchBar, imp)
+
     const grid = document.createElement("div")
     grid.classList.add("noteskin-grid")
     this.grid = grid
 
-    padding.replaceChildren(searchBar, grid)
+    padding.replaceChildren(searchContainer, grid)
 
     this.viewElement.appendChild(padding)
   }
@@ -115,6 +130,36 @@ export class NoteskinWindow extends Window {
     }
   }
 
+  private openImportDialog() {
+    // Noteskins are selected through their metrics.ini
+    if (window.nw) {
+      const nodePath = window.nw.require("path")
+      const fileSelector = document.createElement("input")
+      fileSelector.type = "file"
+      fileSelector.accept = ".ini"
+      fileSelector.onchange = () =>
+        this.importNoteskin(nodePath.dirname(fileSelector.value) as string)
+      fileSelector.click()
+    } else {
+      this.app.windowManager.openWindow(
+        new DirectoryWindow(this.app, {
+          title: "Select the metrics.ini of a noteskin...",
+          accepted_file_types: [".ini"],
+          callback: (path: string) => this.importNoteskin(dirname(path)),
+        })
+      )
+    }
+  }
+
+  private async importNoteskin(path: string) {
+    const id = await importStepManiaNoteskin(path)
+    if (id === undefined) return
+    const gameType = this.app.chartManager.loadedChart?.gameType
+    if (gameType && NoteskinRegistry.getNoteskins().get(gameType.id)?.has(id))
+      this.app.chartManager.chartView?.swapNoteskin(id)
+    this.loadGrid()
+  }
+
   removeAllSelections() {
     ;[...this.grid.querySelectorAll(".selected")].forEach(e =>
       e.classList.remove("selected")
@@ -0,0 +1,434 @@
+import { App } from "../../App"
+import { simfileToLegacySM } from "../../chart/convert/LegacySMConverter"
+import { GameTypeRegistry } from "../../chart/gameTypes/GameTypeRegistry"
+import { CHART_DIFFICULTIES } from "../../chart/sm/ChartTypes"
+import { Simfile } from "../../chart/sm/Simfile"
+import { EventHandler } from "../../util/EventHandler"
+import { roundDigit } from "../../util/Math"
+import { Options } from "../../util/Options"
+import { basename, extname } from "../../util/Path"
+import { RecentFileHandler } from "../../util/RecentFileHandler"
+import {
+  SYNC_BIASES,
+  SyncBias,
+  getBiasShift,
+  getSyncBias,
+  setSyncBias,
+  shiftOffsets,
+} from "../../util/SyncBias"
+import { FileHandler } from "../../util/file-handler/FileHandler"
+import { Dropdown } from "../element/Dropdown"
+import { WaterfallManager } from "../element/WaterfallManager"
+import { ConfirmationWindow } from "./ConfirmationWindow"
+import { DirectoryWindow } from "./DirectoryWindow"
+import { Window } from "./Window"
+
+interface PackSong {
+  folder: string
+  // The simfile that gets opened. Batch actions also rewrite the others
+  path: string
+  paths: string[]
+  title: string
+  artist: string
+  charts: string
+  bpms: string
+}
+
+export class PackWindow extends Window {
+  app: App
+
+  private packPath?: string
+  private songs: PackSong[] = []
+  private scanId = 0
+  private busy = false
+  private smLoadHandler = () => this.updateOpenSong()
+
+  constructor(app: App) {
+    super({
+      title: "Pack",
+      width: 700,
+      height: 450,
+      disableClose: false,
+      win_id: "pack",
+      blocking: false,
+    })
+    this.app = app
+    this.packPath = RecentFileHandler.getLastPack()
+    this.initView()
+    if (this.packPath) this.scan()
+    EventHandler.on("smLoadedAfter", this.smLoadHandler)
+  }
+
+  onClose() {
+    EventHandler.off("smLoadedAfter", this.smLoadHandler)
+    this.scanId++
+  }
+
+  initView(): void {
+    this.viewElement.replaceChildren()
+    const padding = document.createElement("div")
+    padding.classList.add("padding", "pack")
+
+    const header = document.createElement("div")
+    header.classList.add("pack-header")
+
+    const label = document.createElement("div")
+    label.classList.add("pack-label")
+    label.innerText = this.packPath ?? "No pack selected"
+    header.appendChild(label)
+
+    const choose = document.createElement("button")
+    choose.innerText = "Choose folder..."
+    choose.onclick = () => this.openFolderDialog()
+    header.appendChild(choose)
+
+    const rescan = document.createElement("button")
+    rescan.innerText = "Rescan"
+    rescan.disabled = !this.packPath
+    rescan.onclick = () => this.scan()
+    header.appendChild(rescan)
+
+    padding.appendChild(header)
+
+    const status = document.createElement("div")
+    status.classList.add("pack-status")
+    padding.appendChild(status)
+
+    const scroller = document.createElement("div")
+    scroller.classList.add("pack-scroller")
+    padding.appendChild(scroller)
+
+    const actions = document.createElement("div")
+    actions.classList.add("pack-actions")
+
+    const resave = document.createElement("button")
+    resave.innerText = "Resave all"
+    resave.onclick = () => this.runBatch("Resave all songs", () => {})
+    actions.appendChild(resave)
+
+    const radar = document.createElement("button")
+    radar.innerText = "Regenerate radar values"
+    radar.onclick = () =>
+      this.runBatch("Regenerate the radar values", sm =>
+        Object.values(sm.charts)
+          .flat()
+          .forEach(chart => (chart.radarValues = chart.formatRadarValues()))
+      )
+    actions.appendChild(radar)
+
+    const credit = document.createElement("input")
+    credit.type = "text"
+    credit.autocomplete = "off"
+    credit.spellcheck = false
+    credit.placeholder = "Credit"
+    const setCredit = document.createElement("button")
+    setCredit.innerText = "Set credit"
+    setCredit.onclick = () => {
+      const value = credit.value.trim()
+      this.runBatch(`Set the credit to "${value}"`, sm => {
+        sm.properties.CREDIT = value
+      })
+    }
+    actions.appendChild(credit)
+    actions.appendChild(setCredit)
+
+    const offset = document.createElement("input")
+    offset.type = "number"
+    offset.step = "0.001"
+    offset.value = "0"
+    offset.title = "Seconds added to every offset"
+    const shiftOffset = document.createElement("button")
+    shiftOffset.innerText = "Shift offsets"
+    shiftOffset.onclick = () => {
+      const shift = parseFloat(offset.value)
+      if (isNaN(shift) || shift == 0) return
+      this.runBatch(
+        `Shift every offset by ${roundDigit(shift, 3)} seconds`,
+        sm => shiftOffsets(sm, shift)
+      )
+    }
+    actions.appendChild(offset)
+    actions.appendChild(shiftOffset)
+
+    const bias = Dropdown.create(SYNC_BIASES, "Null")
+    const convertBias = document.createElement("button")
+    convertBias.innerText = "Convert sync bias"
+    convertBias.onclick = () => {
+      const target = bias.value
+      this.runBatch(
+        `Move the songs not marked as ${target} to the ${target} sync bias`,
+        sm => this.convertSyncBias(sm, target)
+      )
+    }
+    actions.appendChild(bias.view)
+    actions.appendChild(convertBias)
+
+    padding.appendChild(actions)
+
+    this.viewElement.appendChild(padding)
+    this.updateList()
+  }
+
+  private openFolderDialog() {
+    if (window.nw) {
+      const fileSelector = document.createElement("input")
+      fileSelector.type = "file"
+      fileSelector.setAttribute("nwdirectory", "")
+      fileSelector.onchange = () => this.setPack(fileSelector.value)
+      fileSelector.click()
+    } else {
+      this.app.windowManager.openWindow(
+        new DirectoryWindow(
+          this.app,
+          {
+            title: "Select a pack folder...",
+            select_folder: true,
+            callback: (path: string) => this.setPack(path),
+          },
+          this.packPath
+        )
+      )
+    }
+  }
+
+  private setPack(path: string) {
+    if (!path) return
+    this.packPath = path
+    RecentFileHandler.setLastPack(path)
+    this.initView()
+    this.scan()
+  }
+
+  private async scan() {
+    if (!this.packPath) return
+    const scanId = ++this.scanId
+    const packPath = this.packPath
+    this.songs = []
+    this.updateList()
+    const folders = await FileHandler.getDirectoryFolders(packPath).catch(
+      () => []
+    )
+    folders.sort((a, b) => a.name.localeCompare(b.name))
+    for (const [index, folder] of folders.entries()) {
+      if (scanId != this.scanId) return
+      this.setStatus(`Scanning ${index + 1}/${folders.length}...`)
+      const song = await this.loadSong(packPath + "/" + folder.name)
+      if (scanId != this.scanId) return
+      if (!song) continue
+      this.songs.push(song)
+      this.updateList()
+    }
+    this.setStatus(
+      this.songs.length +
+        (this.songs.length == 1 ? " song" : " songs") +
+        " in " +
+        basename(packPath)
+    )
+  }
+
+  private async loadSong(folder: string): Promise<PackSong | undefined> {
+    const files = await FileHandler.getDirectoryFiles(folder).catch(() => [])
+    const paths = files
+      .map(file => file.name)
+      .filter(name => [".sm", ".ssc"].includes(extname(name).toLowerCase()))
+      .map(name => folder + "/" + name)
+    if (paths.length == 0) return
+    // Prefer the .ssc like StepMania does
+    const path =
+      paths.find(path => extname(path).toLowerCase() == ".ssc") ?? paths[0]
+    const sm = await this.loadSimfile(path)
+    if (!sm) return
+    return {
+      folder,
+      path,
+      paths,
+      title: sm.properties.TITLE || basename(folder),
+      artist: sm.properties.ARTIST ?? "",
+      charts: this.getChartSummary(sm),
+      bpms: this.getBPMRange(sm),
+    }
+  }
+
+  private async loadSimfile(path: string) {
+    const file = await (await FileHandler.getFileHandle(path))?.getFile()
+    if (!file) return
+    const sm = new Simfile(file)
+    await sm.loaded
+    return sm
+  }
+
+  private getChartSummary(sm: Simfile) {
+    return GameTypeRegistry.getPriority()
+      .filter(gameType => sm.charts[gameType.id]?.length)
+      .map(gameType => {
+        const meters = [...sm.charts[gameType.id]]
+          .sort(
+            (a, b) =>
+              CHART_DIFFICULTIES.indexOf(a.difficulty) -
+                CHART_DIFFICULTIES.indexOf(b.difficulty) || a.meter - b.meter
+          )
+          .map(chart => chart.meter)
+        return gameType.id + " " + meters.join(" ")
+      })
+      .join(", ")
+  }
+
+  private getBPMRange(sm: Simfile) {
+    const bpms = sm.timingData
+      .getTimingData("BPMS")
+      .map(event => roundDigit(event.value, 3))
+    if (bpms.length == 0) return ""
+    const min = Math.min(...bpms)
+    const max = Math.max(...bpms)
+    return min == max ? `${min}` : `${min}-${max}`
+  }
+
+  // Songs without #SYNCBIAS are taken to be synced to the other bias. Songs
+  // already marked with the target are left alone.
+  private convertSyncBias(sm: Simfile, target: SyncBias) {
+    if (getSyncBias(sm) == target) return false
+    const bias = getSyncBias(sm) ?? (target == "ITG" ? "Null" : "ITG")
+    shiftOffsets(sm, getBiasShift(bias, target))
+    setSyncBias(sm, target)
+    return true
+  }
+
+  // modify returns false when the simfile doesn't need to be written
+  private async runBatch(
+    description: string,
+    modify: (sm: Simfile) => void | boolean
+  ) {
+    if (this.busy || this.songs.length == 0) return
+    const confirmation = new ConfirmationWindow(
+      this.app,
+      "Pack",
+      `${description} in ${this.songs.length} songs? The files are overwritten and this can't be undone.`,
+      [
+        {
+          label: "Cancel",
+          type: "default",
+        },
+        {
+          label: "Apply",
+          type: "confirm",
+        },
+      ]
+    )
+    this.app.windowManager.openWindow(confirmation)
+    if ((await confirmation.resolved) != "Apply") return
+
+    this.busy = true
+    let written = 0
+    let unchanged = 0
+    const failed: string[] = []
+    const splitTiming: string[] = []
+    for (const [index, song] of this.songs.entries()) {
+      this.setStatus(`Processing ${index + 1}/${this.songs.length}...`)
+      // The open song would overwrite our changes when it's saved
+      if (song.paths.includes(this.app.chartManager.smPath)) {
+        WaterfallManager.createFormatted(
+          `Skipped ${song.title} because it is open in the editor`,
+          "warn"
+        )
+        continue
+      }
+      for (const path of song.paths) {
+        const sm = await this.loadSimfile(path)
+        if (!sm) {
+          failed.push(basename(path))
+          continue
+        }
+        if (modify(sm) === false) {
+          unchanged++
+          continue
+        }
+        const type = extname(path).toLowerCase() == ".ssc" ? "ssc" : "sm"
+        let data = sm.serialize(type, Options.general.preserveFormatting)
+        // Split timing can only be folded into a single .sm if every chart
+        // ends up with the same timing, like when saving
+        if (type == "sm" && sm.usesChartTiming()) {
+          const legacy = simfileToLegacySM(sm, basename(path, extname(path)))
+          if (legacy.files.length != 1) {
+            splitTiming.push(basename(path))
+            continue
+          }
+          data = legacy.files[0].data
+        }
+        await FileHandler.writeFile(path, data)
+          .then(() => written++)
+          .catch(() => failed.push(basename(path)))
+      }
+    }
+    this.busy = false
+    if (failed.length > 0)
+      WaterfallManager.createFormatted(
+        "Couldn't write " + failed.join(", "),
+        "error"
+      )
+    if (splitTiming.length > 0)
+      WaterfallManager.createFormatted(
+        "Skipped " +
+          splitTiming.join(", ") +
+          " since their charts use different timing. Use Export legacy SM on them instead.",
+        "warn"
+      )
+    WaterfallManager.create(
+      `Wrote ${written} ${written == 1 ? "file" : "files"}` +
+        (unchanged > 0 ? `, ${unchanged} didn't need changes` : "")
+    )
+    this.scan()
+  }
+
+  private setStatus(text: string) {
+    const status = this.viewElement.querySelector<HTMLElement>(".pack-status")
+    if (status) status.innerText = text
+  }
+
+  private updateList() {
+    const scroller = this.viewElement.querySelector(".pack-scroller")
+    if (!scroller) return
+    scroller.replaceChildren(...this.songs.map(song => this.createItem(song)))
+    this.updateOpenSong()
+  }
+
+  private updateOpenSong() {
+    this.viewElement
+      .querySelectorAll<HTMLElement>(".pack-item")
+      .forEach(item =>
+        item.classList.toggle(
+          "selected",
+          item.dataset.path == this.app.chartManager.smPath
+        )
+      )
+  }
+
+  private createItem(song: PackSong) {
+    const item = document.createElement("div")
+    item.classList.add("pack-item")
+    item.dataset.path = song.path
+    item.title = song.path
+    item.ondblclick = () => this.app.chartManager.loadSM(song.path)
+
+    const title = document.createElement("div")
+    title.classList.add("pack-title")
+    title.innerText = song.title
+
+    const artist = document.createElement("div")
+    artist.classList.add("pack-artist")
+    artist.innerText = song.artist
+
+    const charts = document.createElement("div")
+    charts.classList.add("pack-charts")
+    charts.innerText = song.charts
+
+    const bpms = document.createElement("div")
+    bpms.classList.add("pack-bpms")
+    bpms.innerText = song.bpms
+
+    item.appendChild(title)
+    item.appendChild(artist)
+    item.appendChild(charts)
+    item.appendChild(bpms)
+    return item
+  }
+}
@@ -0,0 +1,121 @@
+import { App } from "../../App"
+import { Options } from "../../util/Options"
+import {
+  PATTERN_MODES,
+  PatternMode,
+  generatePattern,
+} from "../../util/PatternGenerator"
+import { Dropdown } from "../element/Dropdown"
+import { WaterfallManager } from "../element/WaterfallManager"
+import { Window } from "./Window"
+
+export class PatternGeneratorWindow extends Window {
+  app: App
+
+  // Kept between windows so the settings don't reset every time
+  private static mode: PatternMode = "Stream"
+  private static jumpPercent = 25
+
+  constructor(app: App) {
+    super({
+      title: "Pattern Generator",
+      width: 300,
+      height: 170,
+      win_id: "pattern_generator",
+    })
+    this.app = app
+    this.initView()
+  }
+
+  initView(): void {
+    this.viewElement.replaceChildren()
+
+    const padding = document.createElement("div")
+    padding.classList.add("padding", "pattern-container")
+
+    const grid = document.createElement("div")
+    grid.classList.add("pattern-grid")
+
+    const modeLabel = document.createElement("div")
+    modeLabel.innerText = "Pattern"
+    const mode = Dropdown.create(PATTERN_MODES, PatternGeneratorWindow.mode)
+    grid.appendChild(modeLabel)
+    grid.appendChild(mode.view)
+
+    const jumpsLabel = document.createElement("div")
+    jumpsLabel.innerText = "Jumps (%)"
+    const jumps = document.createElement("input")
+    jumps.type = "number"
+    jumps.min = "0"
+    jumps.max = "100"
+    jumps.value = PatternGeneratorWindow.jumpPercent.toString()
+    jumps.disabled = PatternGeneratorWindow.mode != "Jumpstream"
+    jumps.onchange = () => {
+      const value = parseFloat(jumps.value)
+      if (isNaN(value) || value < 0 || value > 100) {
+        jumps.value = PatternGeneratorWindow.jumpPercent.toString()
+        return
+      }
+      PatternGeneratorWindow.jumpPercent = value
+    }
+    grid.appendChild(jumpsLabel)
+    grid.appendChild(jumps)
+
+    mode.onChange(value => {
+      PatternGeneratorWindow.mode = value
+      jumps.disabled = value != "Jumpstream"
+    })
+
+    padding.appendChild(grid)
+
+    const info = document.createElement("div")
+    info.classList.add("pattern-info")
+    info.innerText = "Fills the selected region or notes at the current snap."
+    padding.appendChild(info)
+
+    const generate = document.createElement("button")
+    generate.innerText = "Generate"
+    generate.onclick = () => this.generate()
+    padding.appendChild(generate)
+
+    this.viewElement.appendChild(padding)
+  }
+
+  private generate() {
+    const chartManager = this.app.chartManager
+    const chart = chartManager.loadedChart
+    if (!chart) return
+    let startBeat: number
+    let endBeat: number
+    if (
+      chartManager.startRegion !== undefined &&
+      chartManager.endRegion !== undefined
+    ) {
+      startBeat = chartManager.startRegion
+      endBeat = chartManager.endRegion
+    } else if (chartManager.selection.notes.length > 0) {
+      const beats = chartManager.selection.notes.map(note => note.beat)
+      startBeat = Math.min(...beats)
+      endBeat = Math.max(...beats)
+    } else {
+      WaterfallManager.createFormatted(
+        "Select a region or notes to fill",
+        "warn"
+      )
+      return
+    }
+    if (Options.chart.snap == 0) {
+      WaterfallManager.createFormatted("Choose a snap to fill at", "warn")
+      return
+    }
+    const notes = generatePattern(chart, {
+      mode: PatternGeneratorWindow.mode,
+      startBeat,
+      endBeat,
+      snap: Options.chart.snap,
+      jumpPercent: PatternGeneratorWindow.jumpPercent,
+    })
+    if (notes.length == 0) return
+    chartManager.insertNotes(notes, true)
+  }
+}
@@ -0,0 +1,104 @@
+import { App } from "../../App"
+import { Chart } from "../../chart/sm/Chart"
+import { CHART_DIFFICULTIES, ChartDifficulty } from "../../chart/sm/ChartTypes"
+import { reduceChart } from "../../util/DifficultyReducer"
+import { Dropdown } from "../element/Dropdown"
+import { WaterfallManager } from "../element/WaterfallManager"
+import { Window } from "./Window"
+
+export class ReduceChartWindow extends Window {
+  app: App
+
+  private readonly chart: Chart
+  private difficulty: ChartDifficulty
+  private meter: number
+
+  constructor(app: App, chart: Chart) {
+    super({
+      title: "Generate Easier Chart",
+      width: 300,
+      height: 170,
+      win_id: "reduce_chart",
+    })
+    this.app = app
+    this.chart = chart
+    // Default to the next difficulty down
+    const index = CHART_DIFFICULTIES.indexOf(chart.difficulty)
+    this.difficulty = CHART_DIFFICULTIES[Math.max(0, Math.min(index, 4) - 1)]
+    this.meter = Math.max(1, Math.round(chart.meter * 0.6))
+    this.initView()
+  }
+
+  initView(): void {
+    this.viewElement.replaceChildren()
+
+    const padding = document.createElement("div")
+    padding.classList.add("padding", "pattern-container")
+
+    const grid = document.createElement("div")
+    grid.classList.add("pattern-grid")
+
+    const difficultyLabel = document.createElement("div")
+    difficultyLabel.innerText = "Difficulty"
+    const difficulty = Dropdown.create(CHART_DIFFICULTIES, this.difficulty)
+    difficulty.onChange(value => (this.difficulty = value))
+    grid.appendChild(difficultyLabel)
+    grid.appendChild(difficulty.view)
+
+    const meterLabel = document.createElement("div")
+    meterLabel.innerText = "Meter"
+    const meter = document.createElement("input")
+    meter.type = "number"
+    meter.min = "1"
+    meter.step = "1"
+    meter.value = this.meter.toString()
+    meter.onchange = () => {
+      const value = parseInt(meter.value)
+      if (isNaN(value) || value < 1) {
+        meter.value = this.meter.toString()
+        return
+      }
+      this.meter = value
+    }
+    grid.appendChild(meterLabel)
+    grid.appendChild(meter)
+
+    padding.appendChild(grid)
+
+    const info = document.createElement("div")
+    info.classList.add("pattern-info")
+    info.innerText = `Adds a copy of the ${this.chart.difficulty} ${this.chart.meter} thinned out to fit the meter.`
+    padding.appendChild(info)
+
+    const create = document.createElement("button")
+    create.innerText = "Create chart"
+    create.onclick = () => this.createChart()
+    padding.appendChild(create)
+
+    this.viewElement.appendChild(padding)
+  }
+
+  private createChart() {
+    const sm = this.app.chartManager.loadedSM
+    if (!sm) return
+    const chart = reduceChart(this.chart, {
+      difficulty: this.difficulty,
+      meter: this.meter,
+    })
+    if (chart.getNotedata().length == 0) {
+      WaterfallManager.createFormatted(
+        "No notes were left after reducing the chart",
+        "warn"
+      )
+      return
+    }
+    sm.addChart(chart)
+    this.app.chartManager.loadChart(chart)
+    WaterfallManager.create(
+      `Added a ${chart.difficulty} ${chart.meter} with ${
+        chart.getNotedata().length
+      } notes`
+    )
+    this.closeWindow()
+  }
+}
@@ -0,0 +1,177 @@
+import { App } from "../../App"
+import { ActionHistory } from "../../util/ActionHistory"
+import { EventHandler } from "../../util/EventHandler"
+import { roundDigit } from "../../util/Math"
+import {
+  ITG_BIAS,
+  SyncBias,
+  getSyncBias,
+  setSyncBias,
+  shiftOffsets,
+} from "../../util/SyncBias"
+import { Dropdown } from "../element/Dropdown"
+import { WaterfallManager } from "../element/WaterfallManager"
+import { Window } from "./Window"
+
+const SHIFTS = ["Null to ITG (+9 ms)", "ITG to Null (-9 ms)", "Custom"] as const
+
+type OffsetShift = (typeof SHIFTS)[number]
+
+export class SyncBiasWindow extends Window {
+  app: App
+
+  private static shift: OffsetShift = "Null to ITG (+9 ms)"
+  private static customShift = 0
+  private static recordBias = true
+
+  constructor(app: App) {
+    super({
+      title: "Shift Offset",
+      width: 320,
+      height: 220,
+      win_id: "sync_bias",
+    })
+    this.app = app
+    this.initView()
+  }
+
+  initView(): void {
+    this.viewElement.replaceChildren()
+
+    const padding = document.createElement("div")
+    padding.classList.add("padding", "pattern-container")
+
+    const grid = document.createElement("div")
+    grid.classList.add("pattern-grid")
+
+    const currentLabel = document.createElement("div")
+    currentLabel.innerText = "Synced to"
+    const current = document.createElement("div")
+    current.classList.add("sync-bias-current")
+    grid.appendChild(currentLabel)
+    grid.appendChild(current)
+
+    const shiftLabel = document.createElement("div")
+    shiftLabel.innerText = "Shift"
+    const shift = Dropdown.create(SHIFTS, SyncBiasWindow.shift)
+    grid.appendChild(shiftLabel)
+    grid.appendChild(shift.view)
+
+    const customLabel = document.createElement("div")
+    customLabel.innerText = "Custom shift (ms)"
+    const custom = document.createElement("input")
+    custom.type = "number"
+    custom.step = "1"
+    custom.value = SyncBiasWindow.customShift.toString()
+    custom.onchange = () => {
+      const value = parseFloat(custom.value)
+      if (isNaN(value)) {
+        custom.value = SyncBiasWindow.customShift.toString()
+        return
+      }
+      SyncBiasWindow.customShift = value
+    }
+    grid.appendChild(customLabel)
+    grid.appendChild(custom)
+
+    const recordLabel = document.createElement("div")
+    recordLabel.innerText = "Record sync bias"
+    const record = document.createElement("input")
+    record.type = "checkbox"
+    record.checked = SyncBiasWindow.recordBias
+    record.onchange = () => (SyncBiasWindow.recordBias = record.checked)
+    grid.appendChild(recordLabel)
+    grid.appendChild(record)
+
+    const updateInputs = () => {
+      custom.disabled = SyncBiasWindow.shift != "Custom"
+      record.disabled = SyncBiasWindow.shift == "Custom"
+    }
+    shift.onChange(value => {
+      SyncBiasWindow.shift = value
+      updateInputs()
+    })
+    updateInputs()
+
+    padding.appendChild(grid)
+
+    const info = document.createElement("div")
+    info.classList.add("pattern-info")
+    info.innerText =
+      "Shifts the song offset and every chart offset. The bias is saved as #SYNCBIAS. Use the Pack window to shift a whole folder."
+    padding.appendChild(info)
+
+    const apply = document.createElement("button")
+    apply.innerText = "Apply"
+    apply.onclick = () => this.apply()
+    padding.appendChild(apply)
+
+    this.viewElement.appendChild(padding)
+    this.updateCurrent()
+  }
+
+  private updateCurrent() {
+    const sm = this.app.chartManager.loadedSM
+    const bias = sm ? getSyncBias(sm) : undefined
+    const current =
+      this.viewElement.querySelector<HTMLElement>(".sync-bias-current")
+    if (current) current.innerText = bias ?? "Not recorded"
+  }
+
+  private apply() {
+    const sm = this.app.chartManager.loadedSM
+    if (!sm) return
+    let shift = SyncBiasWindow.customShift / 1000
+    let bias: SyncBias | undefined = getSyncBias(sm)
+    if (SyncBiasWindow.shift != "Custom") {
+      const target =
+        SyncBiasWindow.shift == "Null to ITG (+9 ms)" ? "ITG" : "Null"
+      if (bias == target) {
+        WaterfallManager.createFormatted(
+          `This song is already synced to ${target}`,
+          "warn"
+        )
+        return
+      }
+      shift = target == "ITG" ? ITG_BIAS : -ITG_BIAS
+      // The old bias is wrong after the shift, so clear it when not recording
+      bias = SyncBiasWindow.recordBias ? target : undefined
+    }
+    if (shift == 0) return
+
+    const oldBias = getSyncBias(sm)
+    const timingDatas = [
+      sm.timingData,
+      ...Object.values(sm.charts)
+        .flat()
+        .map(chart => chart.timingData)
+        .filter(timingData => timingData.hasChartOffset()),
+    ]
+    const oldOffsets = timingDatas.map(timingData => timingData.getOffset())
+    ActionHistory.instance.run({
+      action: () => {
+        shiftOffsets(sm, shift)
+        setSyncBias(sm, bias)
+        sm.timingData.reloadCache()
+        EventHandler.emit("timingModified")
+        EventHandler.emit("chartModified")
+        this.updateCurrent()
+      },
+      undo: () => {
+        timingDatas.forEach((timingData, i) =>
+          timingData.parse("OFFSET", oldOffsets[i].toString())
+        )
+        setSyncBias(sm, oldBias)
+        sm.timingData.reloadCache()
+        EventHandler.emit("timingModified")
+        EventHandler.emit("chartModified")
+        this.updateCurrent()
+      },
+    })
+    WaterfallManager.create(
+      `Shifted ${timingDatas.length} ${
+        timingDatas.length == 1 ? "offset" : "offsets"
+      } by ${roundDigit(shift * 1000, 1)} ms`
+    )
+  }
+}
@@ -2,11 +2,14 @@ import ft from "fourier-transform/asm"
 import tippy from "tippy.js"
 import { App } from "../../App"
 import { PartialTapNotedataEntry } from "../../chart/sm/NoteTypes"
+import { OnsetData } from "../../util/Autochart"
+import { BeatMap, createBeatMap, trackBeats } from "../../util/BeatTracker"
 import { EventHandler } from "../../util/EventHandler"
 import { clamp, lerp, roundDigit, unlerp } from "../../util/Math"
 import { Options } from "../../util/Options"
 import { NumberSlider } from "../element/NumberSlider"
 import { WaterfallManager } from "../element/WaterfallManager"
+import { AutochartWindow } from "./AutochartWindow"
 import { Window } from "./Window"
 
 const graphWidth = 800
@@ -101,10 +104,15 @@ export class SyncWindow extends Window {
   private spectroWeights: number[] = []
 
   private placeNotesSelectionButton!: HTMLButtonElement
+  private autochartButton!: HTMLButtonElement
+  private trackBeatsButton!: HTMLButtonElement
+  private applyBeatMapButton!: HTMLButtonElement
+  private clearBeatMapButton!: HTMLButtonElement
   private toggleButton!: HTMLButtonElement
   private resetButton!: HTMLButtonElement
 
   private onsetResults!: HTMLDivElement
+  private beatMapResults!: HTMLDivElement
 
   private offsetTableLabel!: HTMLDivElement
   private offsetRows: HTMLDivElement[] = []
@@ -115,6 +123,10 @@ export class SyncWindow extends Window {
 
   private lastSecond = 0
 
+  private trackedBeats: number[] = []
+  // Largest distance between a tracked beat and the BPM map, in milliseconds
+  private beatMapTolerance = 20
+
   constructor(app: App) {
     super({
       title: "Detect Audio Sync",
@@ -130,6 +142,7 @@ export class SyncWindow extends Window {
   }
 
   onClose() {
+    this.app.chartManager.beatMapPreview = undefined
     EventHandler.off("audioLoaded", this.onAudioLoad)
     this.app.chartManager.chartAudio.offLoad(this.onAudioLoad)
   }
@@ -166,7 +179,11 @@ export class SyncWindow extends Window {
     onsetsTab.classList.add("sync-tab-option")
     onsetsTab.innerText = "Onset Results"
 
-    tabContainer.replaceChildren(optionsTab, tempoTab, onsetsTab)
+    const beatMapTab = document.createElement("div")
+    beatMapTab.classList.add("sync-tab-option")
+    beatMapTab.innerText = "Beat Map"
+
+    tabContainer.replaceChildren(optionsTab, tempoTab, onsetsTab, beatMapTab)
     ;[...tabContainer.children].forEach((element, index) => {
       ;(element as HTMLDivElement).onclick = () => {
         tabScroller.scrollLeft = 370 * index
@@ -188,6 +205,7 @@ export class SyncWindow extends Window {
     const optionsView = this.createOptionsView()
     const tempoView = this.createTempoView()
     const onsetsView = this.createOnsetsView()
+    const beatMapView = this.createBeatMapView()
 
     const createCover = (text: string, left: number) => {
       const container = document.createElement("div")
@@ -201,6 +219,7 @@ export class SyncWindow extends Window {
       createCover("Clear analysis results to edit", 0),
       createCover("Start analysis to view", 1),
       createCover("Start analysis to view", 2),
+      createCover("Start analysis to view", 3),
     ]
 
     tabView.appendChild(tabScroller)
@@ -210,7 +229,9 @@ export class SyncWindow extends Window {
       tempoView,
       this.covers[1],
       onsetsView,
-      this.covers[2]
+      this.covers[2],
+      beatMapView,
+      this.covers[3]
     )
 
     // Bottom buttons
@@ -510,7 +531,111 @@ export class SyncWindow extends Window {
 
     placeRow.replaceChildren(placeButton, placeSelectionButton)
 
-    container.replaceChildren(thresholdRow, onsetResults, placeRow)
+    const autochartButton = document.createElement("button")
+    autochartButton.innerText = "Autochart..."
+    autochartButton.disabled = true
+    autochartButton.onclick = () =>
+      this.app.windowManager.openWindow(
+        new AutochartWindow(this.app, this.getOnsetData())
+      )
+    tippy(autochartButton, {
+      content:
+        "Create a new chart from the onsets. Available once the analysis is finished.",
+    })
+
+    this.autochartButton = autochartButton
+
+    container.replaceChildren(
+      thresholdRow,
+      onsetResults,
+      placeRow,
+      autochartButton
+    )
+
+    return container
+  }
+
+  createBeatMapView() {
+    const container = document.createElement("div")
+    container.style.display = "flex"
+    container.style.flexDirection = "column"
+    container.style.gap = "10px"
+    container.style.justifyContent = "center"
+    container.style.alignItems = "center"
+    container.style.position = "relative"
+
+    const toleranceRow = document.createElement("div")
+    toleranceRow.style.display = "flex"
+    toleranceRow.style.justifyContent = "space-between"
+    toleranceRow.style.alignItems = "center"
+    toleranceRow.style.width = "100%"
+
+    tippy(toleranceRow, {
+      content:
+        "How far a beat can be from the tracked beat before a new BPM is added, in milliseconds.",
+    })
+
+    const toleranceLabel = document.createElement("div")
+    toleranceLabel.innerText = "Tolerance (ms)"
+
+    const toleranceSlider = NumberSlider.create({
+      min: 5,
+      max: 50,
+      step: 1,
+      value: this.beatMapTolerance,
+      onChange: value => {
+        this.beatMapTolerance = value
+        this.updateBeatMap()
+      },
+    })
+
+    toleranceRow.replaceChildren(toleranceLabel, toleranceSlider.view)
+
+    const beatMapResults = document.createElement("div")
+    beatMapResults.style.color = "#888888"
+    beatMapResults.style.fontStyle = "italic"
+    beatMapResults.style.fontSize = "11px"
+    beatMapResults.style.marginBottom = "15px"
+    beatMapResults.style.marginTop = "-6px"
+    beatMapResults.innerText = "No beats tracked"
+    this.beatMapResults = beatMapResults
+
+    const trackBeatsButton = document.createElement("button")
+    trackBeatsButton.innerText = "Track beats"
+    trackBeatsButton.disabled = true
+    trackBeatsButton.onclick = () => this.trackBeats()
+    tippy(trackBeatsButton, {
+      content:
+        "Find every beat of the song and preview them on the notefield. Available once the analysis is finished.",
+    })
+    this.trackBeatsButton = trackBeatsButton
+
+    const applyRow = document.createElement("div")
+    applyRow.style.display = "flex"
+    applyRow.style.justifyContent = "space-between"
+    applyRow.style.alignItems = "center"
+    applyRow.style.width = "100%"
+
+    const applyButton = document.createElement("button")
+    applyButton.innerText = "Apply BPMs and offset"
+    applyButton.disabled = true
+    applyButton.onclick = () => this.applyBeatMap()
+    this.applyBeatMapButton = applyButton
+
+    const clearButton = document.createElement("button")
+    clearButton.innerText = "Clear preview"
+    clearButton.disabled = true
+    clearButton.onclick = () => this.setBeatMapPreview(undefined)
+    this.clearBeatMapButton = clearButton
+
+    applyRow.replaceChildren(applyButton, clearButton)
+
+    container.replaceChildren(
+      toleranceRow,
+      beatMapResults,
+      trackBeatsButton,
+      applyRow
+    )
 
     return container
   }
@@ -596,6 +721,8 @@ export class SyncWindow extends Window {
     this.peaks = []
     this.tempogram = []
     this.tempogramGroups = []
+    this.trackedBeats = []
+    this.setBeatMapPreview(undefined)
 
     this.offsetTableLabel.innerText = "Offsets"
     this.offsetRows.forEach(row => {
@@ -626,10 +753,13 @@ export class SyncWindow extends Window {
       this.covers[0].classList.toggle("active", this.hasData())
       this.covers[1].classList.toggle("active", !this.hasData())
       this.covers[2].classList.toggle("active", !this.hasData())
+      this.covers[3].classList.toggle("active", !this.hasData())
 
       if (!this.app.chartManager.chartAudio) return
 
       const MAX_BLOCKS = Math.ceil(this.audioLength / this.windowStep)
+      this.autochartButton.disabled = this.lowestFinishedBlock < MAX_BLOCKS
+      this.trackBeatsButton.disabled = this.lowestFinishedBlock < MAX_BLOCKS
 
       // Render new blocks
       if (this.monoAudioData !== undefined && this.doAnalysis) {
@@ -1141,6 +1271,59 @@ export class SyncWindow extends Window {
     }
   }
 
+  getOnsetData(): OnsetData {
+    return {
+      blockLength: this.windowStep / this.sampleRate,
+      strengths: this.noveltyCurveIsolated,
+      peaks: this.peaks,
+      energy: this.spectrogram.map(block =>
+        block.reduce(
+          (sum, value, index) => sum + value * this.spectroWeights[index],
+          0
+        )
+      ),
+    }
+  }
+
+  trackBeats() {
+    this.trackedBeats = trackBeats(
+      this.noveltyCurveIsolated,
+      this.windowStep / this.sampleRate,
+      { minBPM: MIN_BPM, maxBPM: MAX_BPM }
+    )
+    this.updateBeatMap()
+  }
+
+  updateBeatMap() {
+    if (this.trackedBeats.length < 2) {
+      this.setBeatMapPreview(undefined)
+      return
+    }
+    this.setBeatMapPreview(
+      createBeatMap(this.trackedBeats, this.beatMapTolerance / 1000, {
+        minBPM: MIN_BPM,
+        maxBPM: MAX_BPM,
+      })
+    )
+  }
+
+  setBeatMapPreview(beatMap?: BeatMap) {
+    this.app.chartManager.beatMapPreview = beatMap
+    this.applyBeatMapButton.disabled = !beatMap
+    this.clearBeatMapButton.disabled = !beatMap
+    this.beatMapResults.innerText = beatMap
+      ? `Found ${beatMap.beats.length} beats with ${beatMap.bpms.length} BPMs`
+      : "No beats tracked"
+  }
+
+  applyBeatMap() {
+    const beatMap = this.app.chartManager.beatMapPreview
+    if (!beatMap) return
+    this.app.chartManager.applyBeatMap(beatMap)
+    this.trackedBeats = []
+    this.setBeatMapPreview(undefined)
+  }
+
   placeOnsets(selection = false) {
     const notes = this.peaks
       .map((value, index) => {
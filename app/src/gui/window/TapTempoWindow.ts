@@ -0,0 +1,207 @@
+import { App } from "../../App"
+import { EditMode, EditTimingMode } from "../../chart/ChartManager"
+import { EventHandler } from "../../util/EventHandler"
+import { roundDigit } from "../../util/Math"
+import { TapFit, TapSection, fitTaps } from "../../util/TapTempo"
+import { Dropdown } from "../element/Dropdown"
+import { Window } from "./Window"
+
+// Number of taps shown in the residual strip
+const RESIDUAL_TAPS = 48
+// Residual that fills a bar of the strip, in seconds
+const RESIDUAL_SCALE = 0.05
+
+const TAP_TARGETS = ["Beats", "Downbeats"] as const
+
+type TapTarget = (typeof TAP_TARGETS)[number]
+
+export class TapTempoWindow extends Window {
+  app: App
+
+  private taps: number[] = []
+  private fit?: TapFit
+  private previousTimingMode: EditTimingMode
+
+  private static target: TapTarget = "Beats"
+
+  private tapHandler = (second: number) => {
+    this.taps.push(second)
+    this.updateFit()
+  }
+
+  constructor(app: App) {
+    super({
+      title: "Tap Tempo",
+      width: 400,
+      height: 400,
+      win_id: "tap_tempo",
+    })
+    this.app = app
+    const timingMode = app.chartManager.editTimingMode
+    this.previousTimingMode =
+      timingMode == EditTimingMode.Tap ? EditTimingMode.Off : timingMode
+    this.app.chartManager.editTimingMode = EditTimingMode.Tap
+    this.initView()
+    EventHandler.on("timingTap", this.tapHandler)
+  }
+
+  onClose(): void {
+    EventHandler.off("timingTap", this.tapHandler)
+    this.app.chartManager.beatMapPreview = undefined
+    if (this.app.chartManager.editTimingMode == EditTimingMode.Tap)
+      this.app.chartManager.editTimingMode = this.previousTimingMode
+  }
+
+  initView(): void {
+    this.viewElement.replaceChildren()
+
+    const padding = document.createElement("div")
+    padding.classList.add("padding", "tap-container")
+
+    const info = document.createElement("div")
+    info.classList.add("pattern-info")
+    info.innerText =
+      "Enter Record Mode and press a column key on each beat. Taps are recorded instead of notes while this window is open."
+    padding.appendChild(info)
+
+    const grid = document.createElement("div")
+    grid.classList.add("pattern-grid")
+    const targetLabel = document.createElement("div")
+    targetLabel.innerText = "Tap on"
+    const target = Dropdown.create(TAP_TARGETS, TapTempoWindow.target)
+    target.onChange(value => {
+      TapTempoWindow.target = value
+      this.updateFit()
+    })
+    grid.appendChild(targetLabel)
+    grid.appendChild(target.view)
+    padding.appendChild(grid)
+
+    const label = document.createElement("div")
+    label.classList.add("tap-label")
+    padding.appendChild(label)
+
+    const residuals = document.createElement("div")
+    residuals.classList.add("tap-residuals")
+    padding.appendChild(residuals)
+
+    const scroller = document.createElement("div")
+    scroller.classList.add("tap-scroller")
+    padding.appendChild(scroller)
+
+    const buttons = document.createElement("div")
+    buttons.classList.add("tap-buttons")
+
+    const record = document.createElement("button")
+    record.innerText = "Start recording"
+    record.onclick = () => {
+      this.app.chartManager.editTimingMode = EditTimingMode.Tap
+      if (this.app.chartManager.getMode() != EditMode.Record)
+        this.app.chartManager.setMode(EditMode.Record)
+      record.blur()
+    }
+
+    const clear = document.createElement("button")
+    clear.classList.add("delete")
+    clear.innerText = "Clear taps"
+    clear.onclick = () => {
+      this.taps = []
+      this.updateFit()
+    }
+
+    const apply = document.createElement("button")
+    apply.classList.add("confirm", "tap-apply")
+    apply.innerText = "Apply BPMs and offset"
+    apply.onclick = () => {
+      if (!this.fit) return
+      this.app.chartManager.applyBeatMap(this.fit.beatMap)
+      this.taps = []
+      this.updateFit()
+    }
+
+    buttons.appendChild(record)
+    buttons.appendChild(clear)
+    buttons.appendChild(apply)
+    padding.appendChild(buttons)
+
+    this.viewElement.appendChild(padding)
+    this.updateFit()
+  }
+
+  private updateFit() {
+    this.fit = fitTaps(this.taps, TapTempoWindow.target == "Downbeats" ? 4 : 1)
+    this.app.chartManager.beatMapPreview = this.fit?.beatMap
+
+    const label = this.viewElement.querySelector<HTMLElement>(".tap-label")!
+    const outliers = this.fit?.taps.filter(tap => tap.outlier).length ?? 0
+    label.innerText =
+      `${this.taps.length} ${this.taps.length == 1 ? "tap" : "taps"}` +
+      (outliers > 0
+        ? `, ${outliers} ${outliers == 1 ? "outlier" : "outliers"}`
+        : "")
+    this.viewElement.querySelector<HTMLButtonElement>(".tap-apply")!.disabled =
+      !this.fit
+
+    this.updateResiduals()
+    this.viewElement
+      .querySelector(".tap-scroller")!
+      .replaceChildren(
+        ...(this.fit?.sections ?? []).map(section => this.createItem(section))
+      )
+  }
+
+  private updateResiduals() {
+    const taps = this.fit?.taps.slice(-RESIDUAL_TAPS) ?? []
+    this.viewElement.querySelector(".tap-residuals")!.replaceChildren(
+      ...taps.map(tap => {
+        const bar = document.createElement("div")
+        bar.classList.add("tap-bar")
+        bar.title =
+          `${roundDigit(tap.residual * 1000, 1)} ms` +
+          (tap.outlier ? " (outlier)" : "")
+
+        const fill = document.createElement("div")
+        fill.classList.add("tap-bar-fill")
+        fill.classList.toggle("outlier", tap.outlier)
+        const height = Math.min(1, Math.abs(tap.residual) / RESIDUAL_SCALE) * 50
+        fill.style.height = height + "%"
+        // Late taps go above the line and early taps below it
+        fill.style.bottom = tap.residual > 0 ? "50%" : 50 - height + "%"
+        bar.appendChild(fill)
+        return bar
+      })
+    )
+  }
+
+  private createItem(section: TapSection) {
+    const item = document.createElement("div")
+    item.classList.add("tap-item")
+    item.onclick = () => {
+      const beatMap = this.fit?.beatMap
+      if (!beatMap) return
+      const second = beatMap.beats[section.beat]
+      if (second !== undefined) this.app.chartManager.setTime(second)
+    }
+
+    const beat = document.createElement("div")
+    beat.classList.add("tap-beat")
+    beat.innerText =
+      "Beat " + (section.beat + (this.fit?.beatMap.firstBeat ?? 0))
+
+    const bpm = document.createElement("div")
+    bpm.classList.add("tap-bpm")
+    bpm.innerText = roundDigit(section.bpm, 3) + " BPM"
+
+    const details = document.createElement("div")
+    details.classList.add("tap-details")
+    details.innerText = `${section.taps} taps, ±${roundDigit(
+      section.error * 1000,
+      1
+    )} ms`
+
+    item.appendChild(beat)
+    item.appendChild(bpm)
+    item.appendChild(details)
+    return item
+  }
+}
@@ -0,0 +1,193 @@
+import { App } from "../../App"
+import { EventHandler } from "../../util/EventHandler"
+import { roundDigit } from "../../util/Math"
+import {
+  ParityGenerator,
+  TECH_TYPES,
+  TechOccurrence,
+  TechType,
+} from "../../util/ParityGenerator"
+import { Window } from "./Window"
+
+// Number of bars in the timeline strip
+const TIMELINE_BARS = 80
+
+export class TechReportWindow extends Window {
+  app: App
+
+  private tech: TechOccurrence[] = []
+  private filter?: TechType
+  private updateTimeout?: NodeJS.Timeout
+
+  private changeHandler = () => {
+    // Analyzing is slow, so wait until edits settle
+    clearTimeout(this.updateTimeout)
+    this.updateTimeout = setTimeout(() => this.updateTech(), 300)
+  }
+
+  constructor(app: App) {
+    super({
+      title: "Tech Report",
+      width: 500,
+      height: 400,
+      win_id: "tech_report",
+    })
+    this.app = app
+    this.initView()
+    EventHandler.on("chartModified", this.changeHandler)
+    EventHandler.on("timingModified", this.changeHandler)
+    EventHandler.on("chartLoaded", this.changeHandler)
+  }
+
+  onClose(): void {
+    clearTimeout(this.updateTimeout)
+    EventHandler.off("chartModified", this.changeHandler)
+    EventHandler.off("timingModified", this.changeHandler)
+    EventHandler.off("chartLoaded", this.changeHandler)
+  }
+
+  initView(): void {
+    this.viewElement.replaceChildren()
+
+    const padding = document.createElement("div")
+    padding.classList.add("padding", "tech-container")
+
+    const label = document.createElement("div")
+    label.classList.add("tech-label")
+    padding.appendChild(label)
+
+    const counts = document.createElement("div")
+    counts.classList.add("tech-counts")
+    padding.appendChild(counts)
+
+    const timeline = document.createElement("div")
+    timeline.classList.add("tech-timeline")
+    padding.appendChild(timeline)
+
+    const scroller = document.createElement("div")
+    scroller.classList.add("tech-scroller")
+    padding.appendChild(scroller)
+
+    this.viewElement.appendChild(padding)
+    this.updateTech()
+  }
+
+  private updateTech() {
+    const chart = this.app.chartManager.loadedChart
+    const label = this.viewElement.querySelector<HTMLElement>(".tech-label")!
+    this.tech = []
+    if (!chart) {
+      label.innerText = "No chart loaded"
+    } else if (!ParityGenerator.isSupported(chart.gameType.id)) {
+      label.innerText = "Foot parity isn't available for " + chart.gameType.id
+    } else {
+      // Analyze a copy so the parity overlay isn't touched
+      const copy = chart.getNotedata().map(note => ({ ...note }))
+      const generator = new ParityGenerator(chart, chart.gameType.id)
+      generator.analyze(copy)
+      this.tech = generator.findTech(copy)
+      label.innerText =
+        this.tech.length == 0
+          ? "No tech found"
+          : this.tech.length +
+            (this.tech.length == 1 ? " occurrence" : " occurrences")
+    }
+    this.updateCounts()
+    this.updateTimeline()
+    this.updateList()
+  }
+
+  private updateCounts() {
+    const counts = this.viewElement.querySelector(".tech-counts")!
+    counts.replaceChildren(
+      ...TECH_TYPES.map(type => {
+        const count = document.createElement("div")
+        count.classList.add("tech-count")
+        count.classList.toggle("selected", this.filter == type)
+        count.title = "Show only this type"
+        count.onclick = () => {
+          this.filter = this.filter == type ? undefined : type
+          this.updateCounts()
+          this.updateTimeline()
+          this.updateList()
+        }
+
+        const value = document.createElement("div")
+        value.classList.add("tech-count-value")
+        value.innerText = this.tech
+          .filter(occurrence => occurrence.type == type)
+          .length.toString()
+
+        const name = document.createElement("div")
+        name.classList.add("tech-count-name")
+        name.innerText = type
+
+        count.appendChild(value)
+        count.appendChild(name)
+        return count
+      })
+    )
+  }
+
+  private updateTimeline() {
+    const timeline = this.viewElement.querySelector(".tech-timeline")!
+    const chart = this.app.chartManager.loadedChart
+    const lastBeat = chart?.getLastBeat() ?? 0
+    const buckets: number[] = new Array(TIMELINE_BARS).fill(0)
+    if (lastBeat > 0) {
+      for (const occurrence of this.getShownTech()) {
+        const index = Math.min(
+          TIMELINE_BARS - 1,
+          Math.floor((occurrence.beat / lastBeat) * TIMELINE_BARS)
+        )
+        buckets[index]++
+      }
+    }
+    const max = Math.max(1, ...buckets)
+    timeline.replaceChildren(
+      ...buckets.map((count, index) => {
+        const bar = document.createElement("div")
+        bar.classList.add("tech-bar")
+        const beat = (index / TIMELINE_BARS) * lastBeat
+        bar.title = `Beat ${roundDigit(beat, 1)}: ${count}`
+        bar.onclick = () => this.app.chartManager.setBeat(beat)
+
+        const fill = document.createElement("div")
+        fill.classList.add("tech-bar-fill")
+        fill.style.height = (count / max) * 100 + "%"
+        bar.appendChild(fill)
+        return bar
+      })
+    )
+  }
+
+  private updateList() {
+    this.viewElement
+      .querySelector(".tech-scroller")!
+      .replaceChildren(
+        ...this.getShownTech().map(occurrence => this.createItem(occurrence))
+      )
+  }
+
+  private getShownTech() {
+    if (!this.filter) return this.tech
+    return this.tech.filter(occurrence => occurrence.type == this.filter)
+  }
+
+  private createItem(occurrence: TechOccurrence) {
+    const item = document.createElement("div")
+    item.classList.add("tech-item")
+    item.onclick = () => this.app.chartManager.setBeat(occurrence.beat)
+
+    const beat = document.createElement("div")
+    beat.classList.add("tech-beat")
+    beat.innerText = roundDigit(occurrence.beat, 3).toString()
+
+    const type = document.createElement("div")
+    type.innerText = occurrence.type
+
+    item.appendChild(beat)
+    item.appendChild(type)
+    return item
+  }
+}
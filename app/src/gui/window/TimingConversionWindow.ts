@@ -0,0 +1,183 @@
+import { App } from "../../App"
+import { roundDigit } from "../../util/Math"
+import {
+  TIMING_CONVERSIONS,
+  TimingConversion,
+  TimingVerification,
+  convertTiming,
+  getNoteTimings,
+  verifyNoteTimings,
+} from "../../util/TimingConverter"
+import { Dropdown } from "../element/Dropdown"
+import { WaterfallManager } from "../element/WaterfallManager"
+import { Window } from "./Window"
+
+const CONVERSION_INFO: Record<TimingConversion, string> = {
+  "Negative BPMs and stops to warps":
+    "Replaces negative BPMs and stops with warps over the skipped beats, for SM5. Notes on the first row of a warp can't be hit.",
+  "Warps to high BPMs":
+    "Replaces warps with very high BPMs, for engines without warps. Notes inside warps can be hit afterwards.",
+  "Delays to stops":
+    "Replaces delays with stops, for engines without delays. A delay on a row with notes becomes a stop one 192nd before it, so the notes keep their time.",
+  "Stops to delays":
+    "Replaces stops with delays. A stop on a row with notes becomes a delay one 192nd after it, so the notes keep their time.",
+}
+
+const RANGES = ["Selection", "Whole file"] as const
+
+type ConversionRange = (typeof RANGES)[number]
+
+export class TimingConversionWindow extends Window {
+  app: App
+
+  // Reopening the window keeps the last conversion
+  private static conversion: TimingConversion = TIMING_CONVERSIONS[0]
+  private range: ConversionRange
+
+  constructor(app: App) {
+    super({
+      title: "Convert Timing",
+      width: 340,
+      height: 190,
+      win_id: "timing_conversion",
+    })
+    this.app = app
+    this.range = this.getSelectedRange() ? "Selection" : "Whole file"
+    this.initView()
+  }
+
+  initView(): void {
+    this.viewElement.replaceChildren()
+
+    const padding = document.createElement("div")
+    padding.classList.add("padding", "pattern-container")
+
+    const grid = document.createElement("div")
+    grid.classList.add("pattern-grid")
+
+    const info = document.createElement("div")
+    info.classList.add("pattern-info")
+    info.innerText = CONVERSION_INFO[TimingConversionWindow.conversion]
+
+    const conversionLabel = document.createElement("div")
+    conversionLabel.innerText = "Conversion"
+    const conversion = Dropdown.create(
+      TIMING_CONVERSIONS,
+      TimingConversionWindow.conversion
+    )
+    conversion.onChange(value => {
+      TimingConversionWindow.conversion = value
+      info.innerText = CONVERSION_INFO[value]
+    })
+    grid.appendChild(conversionLabel)
+    grid.appendChild(conversion.view)
+
+    const rangeLabel = document.createElement("div")
+    rangeLabel.innerText = "Range"
+    const range = Dropdown.create(RANGES, this.range)
+    range.onChange(value => (this.range = value))
+    grid.appendChild(rangeLabel)
+    grid.appendChild(range.view)
+
+    padding.appendChild(grid)
+    padding.appendChild(info)
+
+    const convert = document.createElement("button")
+    convert.innerText = "Convert"
+    convert.onclick = () => this.convert()
+    padding.appendChild(convert)
+
+    this.viewElement.appendChild(padding)
+  }
+
+  // Finds the beats covered by the region, the selected notes or the
+  // selected timing events
+  private getSelectedRange(): [number, number] | undefined {
+    const chartManager = this.app.chartManager
+    if (
+      chartManager.startRegion !== undefined &&
+      chartManager.endRegion !== undefined
+    ) {
+      return [
+        Math.min(chartManager.startRegion, chartManager.endRegion),
+        Math.max(chartManager.startRegion, chartManager.endRegion),
+      ]
+    }
+    const beats = [
+      ...chartManager.selection.notes,
+      ...chartManager.eventSelection.timingEvents,
+    ].map(item => item.beat)
+    if (beats.length == 0) return undefined
+    return [Math.min(...beats), Math.max(...beats)]
+  }
+
+  private convert() {
+    const sm = this.app.chartManager.loadedSM
+    const chart = this.app.chartManager.loadedChart
+    if (!sm || !chart) return
+    let range: [number, number] | undefined = [0, Infinity]
+    if (this.range == "Selection") {
+      range = this.getSelectedRange()
+      if (!range) {
+        WaterfallManager.createFormatted(
+          "Select a region, notes or timing events to convert",
+          "warn"
+        )
+        return
+      }
+    }
+
+    const result = convertTiming(
+      chart,
+      TimingConversionWindow.conversion,
+      ...range
+    )
+    if (result.removed.length == 0) {
+      WaterfallManager.createFormatted("No timing events to convert", "warn")
+      return
+    }
+
+    // Only keep the conversion if no note in any chart moved
+    const charts = Object.values(sm.charts).flat()
+    const before = charts.map(chart => getNoteTimings(chart))
+    let checks: TimingVerification[] = []
+    const kept = chart.timingData.replaceEvents(
+      result.removed,
+      result.added,
+      () => {
+        checks = charts.map((chart, i) =>
+          verifyNoteTimings(before[i], getNoteTimings(chart))
+        )
+        return checks.every(check => check.moved == 0)
+      }
+    )
+    if (!kept) {
+      const moved = checks.reduce((sum, check) => sum + check.moved, 0)
+      WaterfallManager.createFormatted(
+        `The conversion would move ${moved} ${
+          moved == 1 ? "note" : "notes"
+        }, so it wasn't applied`,
+        "warn"
+      )
+      return
+    }
+    const maxError = Math.max(...checks.map(check => check.maxError))
+    WaterfallManager.create(
+      `Converted ${result.removed.length} timing ${
+        result.removed.length == 1 ? "event" : "events"
+      }, notes moved at most ${roundDigit(maxError * 1000, 2)} ms`
+    )
+    const warpChanged = checks.reduce(
+      (sum, check) => sum + check.warpChanged,
+      0
+    )
+    if (warpChanged > 0) {
+      WaterfallManager.createFormatted(
+        `${warpChanged} ${
+          warpChanged == 1 ? "note" : "notes"
+        } changed between warped and hittable`,
+        "warn"
+      )
+    }
+  }
+}
@@ -19,14 +19,29 @@ export class ActionHistory {
     if (!ActionHistory.instance) ActionHistory.instance = this
   }
 
-  run(action: UndoableAction) {
+  /**
+   * Runs the action and adds it to the history. If keep is given, it is
+   * called after the action runs and the action is undone without being
+   * added when it returns false.
+   *
+   * @param {UndoableAction} action
+   * @param {() => boolean} [keep]
+   * @return {*}  {boolean} Whether the action was kept
+   * @memberof ActionHistory
+   */
+  run(action: UndoableAction, keep?: () => boolean): boolean {
     action.action(this.app)
+    if (keep && !keep()) {
+      action.undo(this.app)
+      return false
+    }
     this.items.splice(
       this.itemIndex,
       this.items.length - this.itemIndex,
       action
     )
     this.itemIndex++
+    return true
   }
 
   undo() {
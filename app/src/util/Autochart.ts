@@ -0,0 +1,161 @@
+import { GameType } from "../chart/gameTypes/GameTypeRegistry"
+import { Chart } from "../chart/sm/Chart"
+import { ChartDifficulty } from "../chart/sm/ChartTypes"
+import { PartialNotedataEntry } from "../chart/sm/NoteTypes"
+import { Simfile } from "../chart/sm/Simfile"
+import { clamp } from "./Math"
+import { NPS_PER_METER, PatternMode, generateColumns } from "./PatternGenerator"
+
+export interface OnsetData {
+  // Length of a block in seconds
+  blockLength: number
+  // Onset strength of each block
+  strengths: number[]
+  peaks: boolean[]
+  // Weighted spectral energy of each block
+  energy: number[]
+}
+
+export interface AutochartOptions {
+  gameType: GameType
+  difficulty: ChartDifficulty
+  meter: number
+  pattern: PatternMode
+  holds: boolean
+}
+
+export const AUTOCHART_PATTERNS: PatternMode[] = [
+  "Stream",
+  "Crossovers",
+  "Random",
+]
+
+// Length of the window the note density is limited over, in seconds
+const DENSITY_WINDOW = 2
+// A hold continues while the energy stays above this part of its start
+const HOLD_SUSTAIN = 0.85
+const MIN_HOLD_BEATS = 1
+
+interface Onset {
+  beat: number
+  second: number
+  strength: number
+  block: number
+}
+
+/**
+ * Creates a draft chart from the onsets found in the audio. Onsets are
+ * snapped to the beat grid, thinned out to a density that fits the meter
+ * and given columns by the pattern generator. The strongest onsets become
+ * jumps, and onsets followed by sustained energy become holds.
+ *
+ * @export
+ * @param {Simfile} sm
+ * @param {OnsetData} data
+ * @param {AutochartOptions} options
+ * @return {*}  {Chart}
+ */
+export function autochart(
+  sm: Simfile,
+  data: OnsetData,
+  options: AutochartOptions
+): Chart {
+  const chart = new Chart(sm)
+  chart.gameType = options.gameType
+  chart.difficulty = options.difficulty
+  chart.meter = options.meter
+  chart.meterF = options.meter
+  chart.description = "Autochart"
+
+  const onsets = selectOnsets(findOnsets(chart, data, options.meter), options)
+  const beats = onsets.map(onset => onset.beat)
+
+  // Harder charts turn more of their strongest onsets into jumps
+  const jumpShare = clamp((options.meter - 3) * 0.02, 0, 0.15)
+  const strengths = onsets.map(onset => onset.strength).sort((a, b) => b - a)
+  const jumpStrength =
+    strengths[Math.floor(strengths.length * jumpShare)] ?? Infinity
+  const jumps = onsets.map(
+    onset => jumpShare > 0 && onset.strength > jumpStrength
+  )
+
+  const rows = generateColumns(chart, options.pattern, beats, jumps)
+  const notes: PartialNotedataEntry[] = []
+  for (const [index, onset] of onsets.entries()) {
+    const hold =
+      options.holds && rows[index].length == 1
+        ? getHoldLength(chart, data, onset, onsets[index + 1])
+        : 0
+    for (const col of rows[index]) {
+      notes.push(
+        hold > 0
+          ? { beat: onset.beat, col, type: "Hold", hold }
+          : { beat: onset.beat, col, type: "Tap" }
+      )
+    }
+  }
+  chart.addNotes(notes, false)
+  chart.recalculateStats()
+  return chart
+}
+
+// Snaps the peaks to the beat grid, keeping the strongest onset of each row
+function findOnsets(chart: Chart, data: OnsetData, meter: number): Onset[] {
+  // Finer rhythms are only used in harder charts
+  const divisions =
+    meter < 4 ? [1] : meter < 8 ? [1, 2] : meter < 10 ? [1, 2, 4] : [1, 2, 3, 4]
+  const rows = new Map<number, Onset>()
+  data.peaks.forEach((peak, block) => {
+    if (!peak) return
+    const exactBeat = chart.getBeatFromSeconds(block * data.blockLength)
+    const beat = divisions
+      .map(division => Math.round(exactBeat * division) / division)
+      .reduce((best, beat) =>
+        Math.abs(beat - exactBeat) < Math.abs(best - exactBeat) ? beat : best
+      )
+    if (beat < 0 || chart.timingData.isBeatWarped(beat)) return
+    const strength = data.strengths[block] ?? 0
+    if ((rows.get(beat)?.strength ?? -1) >= strength) return
+    rows.set(beat, {
+      beat,
+      second: chart.getSecondsFromBeat(beat),
+      strength,
+      block,
+    })
+  })
+  return [...rows.values()].sort((a, b) => a.beat - b.beat)
+}
+
+// Drops the weakest onsets until the density fits the meter
+function selectOnsets(onsets: Onset[], options: AutochartOptions) {
+  const maxNotes = Math.max(
+    1,
+    Math.round(options.meter * NPS_PER_METER * DENSITY_WINDOW)
+  )
+  const selected: Onset[] = []
+  for (const onset of [...onsets].sort((a, b) => b.strength - a.strength)) {
+    const nearby = selected.filter(
+      other => Math.abs(other.second - onset.second) < DENSITY_WINDOW / 2
+    ).length
+    if (nearby < maxNotes) selected.push(onset)
+  }
+  return selected.sort((a, b) => a.beat - b.beat)
+}
+
+// Finds how long the energy after the onset is sustained, in beats
+function getHoldLength(
+  chart: Chart,
+  data: OnsetData,
+  onset: Onset,
+  next?: Onset
+) {
+  const start = data.energy[onset.block]
+  if (!start) return 0
+  let block = onset.block + 1
+  while (data.energy[block] >= start * HOLD_SUSTAIN) block++
+  let endBeat = chart.getBeatFromSeconds(block * data.blockLength)
+  // End the hold before the next note so both feet are free for it
+  if (next) endBeat = Math.min(endBeat, next.beat - 0.5)
+  const length = Math.floor((endBeat - onset.beat) * 2) / 2
+  return length >= MIN_HOLD_BEATS ? length : 0
+}
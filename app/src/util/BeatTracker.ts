@@ -0,0 +1,252 @@
+import { clamp, roundDigit } from "./Math"
+
+export interface BeatTrackerOptions {
+  minBPM: number
+  maxBPM: number
+}
+
+export interface BeatMap {
+  // Seconds of each beat from the first tracked beat, following the map
+  beats: number[]
+  // Beat number of the first entry in beats
+  firstBeat: number
+  offset: number
+  bpms: { beat: number; value: number }[]
+}
+
+// Length of the window the local tempo is estimated over, in seconds
+const TEMPO_WINDOW = 8
+// Distance between tempo estimates, in seconds
+const TEMPO_HOP = 1
+// Number of tempo estimates the median filter looks at on each side
+const TEMPO_MEDIAN_RADIUS = 2
+// How strongly the beat alignment sticks to the local tempo
+const TIGHTNESS = 400
+
+/**
+ * Tracks the beats of a novelty curve. The local tempo is estimated with
+ * autocorrelation, then the beats are aligned to the novelty peaks with
+ * dynamic programming, so the beats can follow a tempo that drifts.
+ *
+ * @export
+ * @param {number[]} novelty The onset strength of each block
+ * @param {number} blockLength The length of a block in seconds
+ * @param {BeatTrackerOptions} options
+ * @return {*}  {number[]} The seconds of each beat
+ */
+export function trackBeats(
+  novelty: number[],
+  blockLength: number,
+  options: BeatTrackerOptions
+): number[] {
+  const onsets = normalize(novelty)
+  if (onsets.length == 0) return []
+  const periods = estimatePeriods(onsets, blockLength, options)
+
+  const scores = new Float64Array(onsets.length)
+  const backlinks = new Int32Array(onsets.length).fill(-1)
+  for (let t = 0; t < onsets.length; t++) {
+    const period = periods[t]
+    let best = 0
+    for (
+      let prev = Math.max(0, t - Math.round(period * 2));
+      prev <= t - Math.round(period / 2);
+      prev++
+    ) {
+      const score =
+        scores[prev] - TIGHTNESS * Math.log((t - prev) / period) ** 2
+      if (score > best) {
+        best = score
+        backlinks[t] = prev
+      }
+    }
+    scores[t] = onsets[t] + best
+  }
+
+  // End on the best beat within the last two beats
+  let last = onsets.length - 1
+  for (
+    let t = Math.max(0, onsets.length - Math.round(periods.at(-1)! * 2));
+    t < onsets.length;
+    t++
+  ) {
+    if (scores[t] > scores[last]) last = t
+  }
+  const frames: number[] = []
+  for (let t = last; t != -1; t = backlinks[t]) frames.push(t)
+  frames.reverse()
+
+  return frames.map(frame => {
+    // Find the peak between blocks when the beat is on one
+    const a = onsets[frame - 1] ?? 0
+    const b = onsets[frame]
+    const c = onsets[frame + 1] ?? 0
+    let delta = 0
+    if (b > a && b >= c)
+      delta = clamp((0.5 * (a - c)) / (a - 2 * b + c), -0.5, 0.5)
+    return (frame + delta) * blockLength
+  })
+}
+
+/**
+ * Fits a BPM map to the tracked beats. A BPM stays the same as long as every
+ * beat it covers is within the tolerance of the tracked beat.
+ *
+ * @export
+ * @param {number[]} beats The seconds of each tracked beat
+ * @param {number} tolerance The largest allowed error in seconds
+ * @param {BeatTrackerOptions} options
+ * @return {*}  {BeatMap}
+ */
+export function createBeatMap(
+  beats: number[],
+  tolerance: number,
+  options: BeatTrackerOptions
+): BeatMap {
+  if (beats.length < 2) return { beats, firstBeat: 0, offset: 0, bpms: [] }
+  const segments: { start: number; bpm: number }[] = []
+  const mapped = [beats[0]]
+  let start = 0
+  let anchor = beats[0]
+  while (start < beats.length - 1) {
+    let length = 1
+    let bpm = getSegmentBPM(beats, start, anchor, 1, options)
+    while (start + length < beats.length - 1) {
+      const next = getSegmentBPM(beats, start, anchor, length + 1, options)
+      if (!fitsSegment(beats, start, anchor, length + 1, next, tolerance)) break
+      bpm = next
+      length++
+    }
+    if (segments.at(-1)?.bpm != bpm) segments.push({ start, bpm })
+    for (let k = 1; k <= length; k++) mapped.push(anchor + (k * 60) / bpm)
+    anchor = mapped.at(-1)!
+    start += length
+  }
+  return anchorBeatMap(
+    mapped,
+    segments.map(segment => ({ beat: segment.start, value: segment.bpm }))
+  )
+}
+
+/**
+ * Extends the first BPM back so beat 0 is at or before the start of the song,
+ * and moves the BPM changes to the beats they end up on.
+ *
+ * @export
+ * @param {number[]} beats The seconds of each beat
+ * @param {BeatMap["bpms"]} bpms The BPM changes, counted from the first beat
+ * @param {number} [multiple=1] The first beat is kept a multiple of this
+ * @return {*}  {BeatMap}
+ */
+export function anchorBeatMap(
+  beats: number[],
+  bpms: BeatMap["bpms"],
+  multiple = 1
+): BeatMap {
+  const firstLength = 60 / bpms[0].value
+  const firstBeat = Math.max(
+    0,
+    Math.ceil(beats[0] / (firstLength * multiple)) * multiple
+  )
+  return {
+    beats,
+    firstBeat,
+    offset: roundDigit(firstBeat * firstLength - beats[0], 3),
+    bpms: bpms.map(bpm => ({
+      beat: bpm.beat == 0 ? 0 : bpm.beat + firstBeat,
+      value: bpm.value,
+    })),
+  }
+}
+
+function normalize(novelty: number[]) {
+  const mean = novelty.reduce((a, b) => a + b, 0) / novelty.length
+  const deviation = Math.sqrt(
+    novelty.reduce((a, b) => a + (b - mean) ** 2, 0) / novelty.length
+  )
+  return novelty.map(value => (deviation > 0 ? value / deviation : 0))
+}
+
+// Finds the beat length in blocks at each block
+function estimatePeriods(
+  onsets: number[],
+  blockLength: number,
+  options: BeatTrackerOptions
+) {
+  const minLag = Math.floor(60 / options.maxBPM / blockLength)
+  const maxLag = Math.ceil(60 / options.minBPM / blockLength)
+  const windowLength = Math.round(TEMPO_WINDOW / blockLength)
+  const hop = Math.round(TEMPO_HOP / blockLength)
+
+  const estimates: number[] = []
+  for (let start = 0; start < onsets.length; start += hop) {
+    const end = Math.min(onsets.length, start + windowLength)
+    const correlation = (lag: number) => {
+      let sum = 0
+      for (let t = start; t + lag < end; t++) sum += onsets[t] * onsets[t + lag]
+      return sum
+    }
+    // Count the next beat too so a tempo isn't mistaken for half of it
+    const scores: number[] = []
+    for (let lag = minLag - 1; lag <= maxLag + 1; lag++)
+      scores.push(correlation(lag) + 0.5 * correlation(lag * 2))
+    let best = 1
+    for (let i = 2; i < scores.length - 1; i++)
+      if (scores[i] > scores[best]) best = i
+    const [a, b, c] = scores.slice(best - 1, best + 2)
+    const delta =
+      a - 2 * b + c == 0
+        ? 0
+        : clamp((0.5 * (a - c)) / (a - 2 * b + c), -0.5, 0.5)
+    estimates.push(clamp(minLag - 1 + best + delta, minLag, maxLag))
+  }
+
+  const smoothed = estimates.map((_, i) => {
+    const nearby = estimates
+      .slice(Math.max(0, i - TEMPO_MEDIAN_RADIUS), i + TEMPO_MEDIAN_RADIUS + 1)
+      .sort((a, b) => a - b)
+    return nearby[Math.floor(nearby.length / 2)]
+  })
+
+  return onsets.map((_, t) => {
+    const position = Math.max(0, (t - windowLength / 2) / hop)
+    const index = Math.min(Math.floor(position), smoothed.length - 1)
+    const next = smoothed[index + 1] ?? smoothed[index]
+    const part = Math.min(1, position - index)
+    return smoothed[index] + (next - smoothed[index]) * part
+  })
+}
+
+// Fits the BPM of the beats after the anchor, keeping it in the allowed range
+function getSegmentBPM(
+  beats: number[],
+  start: number,
+  anchor: number,
+  length: number,
+  options: BeatTrackerOptions
+) {
+  let moments = 0
+  let squares = 0
+  for (let k = 1; k <= length; k++) {
+    moments += k * (beats[start + k] - anchor)
+    squares += k * k
+  }
+  if (moments <= 0) return options.maxBPM
+  const bpm = roundDigit((60 * squares) / moments, 3)
+  return clamp(bpm, options.minBPM, options.maxBPM)
+}
+
+function fitsSegment(
+  beats: number[],
+  start: number,
+  anchor: number,
+  length: number,
+  bpm: number,
+  tolerance: number
+) {
+  for (let k = 1; k <= length; k++) {
+    if (Math.abs(anchor + (k * 60) / bpm - beats[start + k]) > tolerance)
+      return false
+  }
+  return true
+}
@@ -0,0 +1,120 @@
+import { Chart } from "../chart/sm/Chart"
+import { NotedataEntry, isHoldNote } from "../chart/sm/NoteTypes"
+import { roundDigit } from "./Math"
+
+export interface LintIssue {
+  beat: number
+  col?: number
+  message: string
+}
+
+export interface LintOptions {
+  // Length of the song audio in seconds, 0 if it isn't known
+  songLength: number
+  // Jacks with less time than this between notes are reported
+  jackThreshold: number
+}
+
+const ROWS_PER_BEAT = 48
+
+function getRow(beat: number) {
+  return Math.round(beat * ROWS_PER_BEAT)
+}
+
+/**
+ * Checks the chart for problems that usually only show up when the chart
+ * is played in StepMania.
+ *
+ * @export
+ * @param {Chart} chart
+ * @param {LintOptions} options
+ * @return {*}  {LintIssue[]}
+ */
+export function lintChart(chart: Chart, options: LintOptions): LintIssue[] {
+  const issues: LintIssue[] = []
+  const columnName = (col: number) =>
+    chart.gameType.columnNames[col] ?? `column ${col + 1}`
+  const lastNotes: (NotedataEntry | undefined)[] = []
+  const lastSteps: (NotedataEntry | undefined)[] = []
+
+  for (const note of chart.getNotedata()) {
+    const position = { beat: note.beat, col: note.col }
+    const column = columnName(note.col)
+
+    if (note.warped)
+      issues.push({ ...position, message: `${note.type} inside a warp` })
+    else if (note.fake && note.type != "Fake")
+      issues.push({ ...position, message: `${note.type} inside a fake` })
+
+    // StepMania stores notes in rows of a 192nd, so notes closer than that
+    // end up on the same row and only one of them is kept
+    const last = lastNotes[note.col]
+    if (
+      last &&
+      getRow(last.beat) == getRow(note.beat) &&
+      (last.type == "Mine") != (note.type == "Mine")
+    )
+      issues.push({
+        ...position,
+        message: `Mine and ${
+          note.type == "Mine" ? last.type : note.type
+        } on the same row in ${column}`,
+      })
+    else if (last && isHoldNote(last) && note.beat <= last.beat + last.hold)
+      issues.push({
+        ...position,
+        message: `${note.type} overlaps a ${last.type} in ${column}`,
+      })
+
+    if (isHoldNote(note) && note.hold < 1 / 48)
+      issues.push({
+        ...position,
+        message: `${note.type} shorter than a 192nd`,
+      })
+
+    if (options.songLength > 0 && note.second > options.songLength)
+      issues.push({
+        ...position,
+        message: `${note.type} after the end of the audio`,
+      })
+
+    const lastStep = lastSteps[note.col]
+    if (note.type != "Mine" && !note.fake && !note.warped) {
+      if (
+        lastStep &&
+        lastStep.beat != note.beat &&
+        note.second - lastStep.second < options.jackThreshold
+      )
+        issues.push({
+          ...position,
+          message: `Jack in ${column} with ${Math.round(
+            (note.second - lastStep.second) * 1000
+          )}ms between notes`,
+        })
+      lastSteps[note.col] = note
+    }
+
+    // Keep the hold so notes inside it are found
+    if (!last || !isHoldNote(last) || note.beat > last.beat + last.hold)
+      lastNotes[note.col] = note
+  }
+
+  for (const stop of chart.timingData.getTimingData("STOPS")) {
+    if (Math.abs(stop.value) < 0.001)
+      issues.push({
+        beat: stop.beat,
+        message: `Stop shorter than 1ms (${roundDigit(stop.value * 1000, 3)}ms)`,
+      })
+  }
+
+  if (options.songLength > 0 && chart.getLastSecond() > options.songLength)
+    issues.push({
+      beat: chart.getLastBeat(),
+      message: `Chart ends ${roundDigit(
+        chart.getLastSecond() - options.songLength,
+        3
+      )}s after the end of the audio`,
+    })
+
+  return issues.sort((a, b) => a.beat - b.beat || (a.col ?? -1) - (b.col ?? -1))
+}
@@ -0,0 +1,94 @@
+import { Chart } from "../chart/sm/Chart"
+import { ParityGenerator, TechType } from "./ParityGenerator"
+import { NPS_PER_METER } from "./PatternGenerator"
+
+export interface DifficultyEstimate {
+  meter: number
+  breakdown: { label: string; value: number }[]
+}
+
+// A measure with at least this many notes counts as stream
+const STREAM_MEASURE_NOTES = 16
+
+/**
+ * Estimates a block rating for the chart from its note density, stream
+ * length, jumps and hands, and the tech found by the parity generator.
+ *
+ * The estimate is a baseline to compare charts against, not a replacement
+ * for rating charts by hand.
+ *
+ * @export
+ * @param {Chart} chart
+ * @return {*}  {DifficultyEstimate}
+ */
+export function estimateDifficulty(chart: Chart): DifficultyEstimate {
+  const notedata = chart.getNotedata()
+  const steps = notedata.filter(
+    note => note.type != "Mine" && !note.fake && !note.warped
+  )
+  if (steps.length == 0) return { meter: 1, breakdown: [] }
+
+  const minutes = Math.max(
+    (chart.getLastSecond() - steps[0].second) / 60,
+    1 / 60
+  )
+
+  // Average the densest quarter of the song so short bursts don't dominate
+  const nps = chart
+    .getNPSGraph()
+    .filter(value => value > 0)
+    .sort((a, b) => b - a)
+  const peak = nps[0] ?? 0
+  const top = nps.slice(0, Math.max(1, Math.ceil(nps.length / 4)))
+  const sustained = top.reduce((sum, value) => sum + value, 0) / top.length
+  const density = (sustained * 0.8 + peak * 0.2) / NPS_PER_METER
+
+  const measureNotes = new Map<number, number>()
+  const rows = new Set<number>()
+  for (const note of steps) {
+    if (rows.has(note.beat)) continue
+    rows.add(note.beat)
+    const measure = Math.floor(chart.timingData.getMeasure(note.beat))
+    measureNotes.set(measure, (measureNotes.get(measure) ?? 0) + 1)
+  }
+  const streamMeasures = [...measureNotes.values()].filter(
+    count => count >= STREAM_MEASURE_NOTES
+  ).length
+  const stamina = Math.min(3, 0.6 * Math.log2(1 + streamMeasures / 8))
+
+  const stats = chart.getNotedataStats()
+  const jumps = Math.min(1.5, (stats.Jumps + stats.Hands * 2) / minutes / 60)
+
+  let tech = 0
+  if (ParityGenerator.isSupported(chart.gameType.id)) {
+    // Analyze a copy so the parity overlay isn't touched
+    const copy = notedata.map(note => ({ ...note }))
+    const generator = new ParityGenerator(chart, chart.gameType.id)
+    generator.analyze(copy)
+    const weight: Partial<Record<TechType, number>> = {
+      Crossover: 1,
+      Footswitch: 1.5,
+      Sideswitch: 1.5,
+      Doublestep: 0.5,
+      Spin: 1,
+    }
+    const score = generator
+      .findTech(copy)
+      .reduce((sum, occurrence) => sum + (weight[occurrence.type] ?? 0), 0)
+    tech = Math.min(2.5, score / minutes / 40)
+  }
+
+  const breakdown = [
+    { label: "Density", value: density },
+    { label: "Stamina", value: stamina },
+    { label: "Jumps", value: jumps },
+    { label: "Tech", value: tech },
+  ]
+  return {
+    meter: Math.max(
+      1,
+      Math.round(breakdown.reduce((sum, part) => sum + part.value, 0))
+    ),
+    breakdown,
+  }
+}
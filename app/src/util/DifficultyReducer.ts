@@ -0,0 +1,139 @@
+import { Chart } from "../chart/sm/Chart"
+import { ChartDifficulty } from "../chart/sm/ChartTypes"
+import {
+  NotedataEntry,
+  PartialNotedataEntry,
+  isHoldNote,
+} from "../chart/sm/NoteTypes"
+import { NPS_PER_METER } from "./PatternGenerator"
+
+export interface ReduceOptions {
+  difficulty: ChartDifficulty
+  meter: number
+}
+
+// Quantizations in the order they are kept
+const QUANT_PRIORITY = [4, 8, 12, 16]
+
+interface Row {
+  beat: number
+  quant: number
+  notes: NotedataEntry[]
+}
+
+/**
+ * Creates an easier copy of the chart. Rows are thinned out by quantization
+ * (4ths are kept first, then 8ths) until every measure fits the note density
+ * of the meter, jumps are broken up, short holds become taps and mines are
+ * removed.
+ *
+ * @export
+ * @param {Chart} chart
+ * @param {ReduceOptions} options
+ * @return {*}  {Chart}
+ */
+export function reduceChart(chart: Chart, options: ReduceOptions): Chart {
+  const reduced = new Chart(chart.sm)
+  reduced.gameType = chart.gameType
+  reduced.difficulty = options.difficulty
+  reduced.meter = options.meter
+  reduced.meterF = options.meter
+  reduced.description = chart.description
+  reduced.chartName = chart.chartName
+  reduced.chartStyle = chart.chartStyle
+  reduced.credit = chart.credit
+  reduced.music = chart.music
+  chart.timingData.copyChartTiming(reduced.timingData)
+
+  const meter = options.meter
+  // Finer rhythms are only kept in harder charts
+  const quants = QUANT_PRIORITY.slice(
+    0,
+    meter < 4 ? 1 : meter < 8 ? 2 : meter < 10 ? 3 : 4
+  )
+  const maxJump = meter < 6 ? 1 : 2
+  const minHold = meter < 4 ? 2 : 1
+
+  const rows = capMeasures(chart, getRows(chart, quants), meter * NPS_PER_METER)
+  const notes: PartialNotedataEntry[] = []
+  let lastCols: number[] = []
+  for (const row of rows) {
+    const kept = breakJump(row.notes, lastCols, maxJump)
+    for (const note of kept) {
+      notes.push(
+        isHoldNote(note) && note.hold >= minHold
+          ? { beat: note.beat, col: note.col, type: note.type, hold: note.hold }
+          : {
+              beat: note.beat,
+              col: note.col,
+              type: note.type == "Lift" ? "Lift" : "Tap",
+            }
+      )
+    }
+    lastCols = kept.map(note => note.col)
+  }
+  reduced.addNotes(notes, false)
+  reduced.recalculateStats()
+  return reduced
+}
+
+// Groups the notes into rows, leaving out mines and rows at finer quants
+function getRows(chart: Chart, quants: number[]) {
+  const rows: Row[] = []
+  for (const note of chart.getNotedata()) {
+    if (note.type == "Mine" || note.type == "Fake") continue
+    if (!quants.includes(note.quant)) continue
+    if (rows.at(-1)?.beat != note.beat)
+      rows.push({ beat: note.beat, quant: note.quant, notes: [] })
+    rows.at(-1)!.notes.push(note)
+  }
+  return rows
+}
+
+// Keeps the rows with the highest quant priority until each measure is
+// under the note density cap
+function capMeasures(chart: Chart, rows: Row[], maxNPS: number) {
+  const timingData = chart.timingData
+  const measures = new Map<number, Row[]>()
+  for (const row of rows) {
+    const measure = Math.floor(timingData.getMeasure(row.beat))
+    if (!measures.has(measure)) measures.set(measure, [])
+    measures.get(measure)!.push(row)
+  }
+  const kept: Row[] = []
+  for (const [measure, measureRows] of measures) {
+    const seconds =
+      timingData.getSecondsFromBeat(
+        timingData.getBeatFromMeasure(measure + 1)
+      ) - timingData.getSecondsFromBeat(timingData.getBeatFromMeasure(measure))
+    const maxRows = Math.max(1, Math.floor(maxNPS * seconds))
+    kept.push(
+      ...[...measureRows]
+        .sort(
+          (a, b) =>
+            QUANT_PRIORITY.indexOf(a.quant) - QUANT_PRIORITY.indexOf(b.quant) ||
+            a.beat - b.beat
+        )
+        .slice(0, maxRows)
+    )
+  }
+  return kept.sort((a, b) => a.beat - b.beat)
+}
+
+// Picks the notes of a jump to keep, avoiding jacks on the previous row
+// and keeping holds where possible
+function breakJump(
+  notes: NotedataEntry[],
+  lastCols: number[],
+  maxJump: number
+) {
+  if (notes.length <= maxJump) return notes
+  return [...notes]
+    .sort(
+      (a, b) =>
+        Number(lastCols.includes(a.col)) - Number(lastCols.includes(b.col)) ||
+        Number(isHoldNote(b)) - Number(isHoldNote(a))
+    )
+    .slice(0, maxJump)
+    .sort((a, b) => a.col - b.col)
+}
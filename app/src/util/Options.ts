@@ -17,6 +17,7 @@ export class DefaultOptions {
     spinnerStep: 1,
     smoothAnimations: true,
     warnBeforeExit: true,
+    preserveFormatting: false,
     showPlaybackOptions: true,
     theme: "default",
   }
@@ -31,6 +32,7 @@ export class DefaultOptions {
     hideWarpedArrows: false,
     hideFakedArrows: false,
     doSpeedChanges: true,
+    showParity: false,
     drawNoteFlash: true,
     drawIcons: true,
     allowReceptorDrag: true,
@@ -119,6 +121,7 @@ export class DefaultOptions {
   static audio = {
     assistTick: false,
     metronome: false,
+    keysounds: true,
     rate: 1,
     masterVolume: 1,
     songVolume: 0.2,
@@ -1,7 +1,7 @@
 // Generates foot parity given notedata
 // Original algorithm by Jewel, polished by tillvit
 
-import { App } from "../App"
+import { Chart } from "../chart/sm/Chart"
 import {
   HoldNotedataEntry,
   Notedata,
@@ -9,15 +9,6 @@ import {
   isHoldNote,
 } from "../chart/sm/NoteTypes"
 
-const LAYOUT: Record<string, Point[]> = {
-  "dance-single": [
-    { x: -1, y: 0 },
-    { x: 0, y: -1 },
-    { x: 0, y: 1 },
-    { x: 1, y: 0 },
-  ],
-}
-
 const WEIGHTS = {
   DOUBLESTEP: 850,
   BRACKETJACK: 20,
@@ -34,11 +25,115 @@ const WEIGHTS = {
   SIDESWITCH: 130,
 }
 
-interface Point {
+export const TECH_TYPES = [
+  "Crossover",
+  "Footswitch",
+  "Sideswitch",
+  "Doublestep",
+  "Candle",
+  "Bracket",
+  "Jack",
+  "Spin",
+] as const
+
+export type TechType = (typeof TECH_TYPES)[number]
+
+export interface TechOccurrence {
+  type: TechType
+  beat: number
+}
+
+export interface Point {
   x: number
   y: number
 }
 
+interface ParityLayout {
+  // Position of each column on the pad, up is +y
+  panels: Point[]
+  // Columns where switching feet counts as a sideswitch
+  sideColumns: number[]
+  weights?: Partial<typeof WEIGHTS>
+}
+
+const LAYOUTS: Record<string, ParityLayout> = {
+  "dance-single": {
+    panels: [
+      { x: -1, y: 0 },
+      { x: 0, y: -1 },
+      { x: 0, y: 1 },
+      { x: 1, y: 0 },
+    ],
+    sideColumns: [0, 3],
+  },
+  "dance-double": {
+    panels: [
+      { x: -1, y: 0 },
+      { x: 0, y: -1 },
+      { x: 0, y: 1 },
+      { x: 1, y: 0 },
+      { x: 2, y: 0 },
+      { x: 3, y: -1 },
+      { x: 3, y: 1 },
+      { x: 4, y: 0 },
+    ],
+    sideColumns: [0, 3, 4, 7],
+    // Travelling across both pads is expected in doubles
+    weights: { DISTANCE: 4 },
+  },
+  "dance-solo": {
+    panels: [
+      { x: -1, y: 0 },
+      { x: -1, y: 1 },
+      { x: 0, y: -1 },
+      { x: 0, y: 1 },
+      { x: 1, y: 1 },
+      { x: 1, y: 0 },
+    ],
+    sideColumns: [0, 5],
+  },
+  "pump-single": {
+    panels: [
+      { x: -1, y: -1 },
+      { x: -1, y: 1 },
+      { x: 0, y: 0 },
+      { x: 1, y: 1 },
+      { x: 1, y: -1 },
+    ],
+    // Pump has no side panels, and twists are a common pattern
+    sideColumns: [],
+    weights: { FACING: 1 },
+  },
+  "pump-double": {
+    panels: [
+      { x: -1, y: -1 },
+      { x: -1, y: 1 },
+      { x: 0, y: 0 },
+      { x: 1, y: 1 },
+      { x: 1, y: -1 },
+      { x: 2, y: -1 },
+      { x: 2, y: 1 },
+      { x: 3, y: 0 },
+      { x: 4, y: 1 },
+      { x: 4, y: -1 },
+    ],
+    sideColumns: [],
+    weights: { FACING: 1, DISTANCE: 4 },
+  },
+  "pump-halfdouble": {
+    panels: [
+      { x: 0, y: 0 },
+      { x: 1, y: 1 },
+      { x: 1, y: -1 },
+      { x: 2, y: -1 },
+      { x: 2, y: 1 },
+      { x: 3, y: 0 },
+    ],
+    sideColumns: [],
+    weights: { FACING: 1 },
+  },
+}
+
 enum Foot {
   NONE,
   LEFT_HEEL,
@@ -120,17 +215,29 @@ class StepParityGraph {
 }
 
 export class ParityGenerator {
-  private readonly app
+  private readonly chart
   private permuteCache: Map<number, Foot[][]> = new Map()
   private readonly layout
+  private readonly sideColumns
+  private readonly weights
+
+  constructor(chart: Chart, type: string) {
+    this.chart = chart
+    this.layout = LAYOUTS[type].panels
+    this.sideColumns = LAYOUTS[type].sideColumns
+    this.weights = { ...WEIGHTS, ...LAYOUTS[type].weights }
+  }
+
+  static isSupported(type: string) {
+    return type in LAYOUTS
+  }
 
-  constructor(app: App, type: string) {
-    this.app = app
-    this.layout = LAYOUT[type]
+  static getPanels(type: string): readonly Point[] {
+    return LAYOUTS[type]?.panels ?? []
   }
 
   help() {
-    console.log(`Currently only compatible with dance-single.
+    console.log(`Compatible with ${Object.keys(LAYOUTS).join(", ")}.
 Available commands:
 analyze(): analyze the current chart
 clear(): clear parity highlights`)
@@ -203,7 +310,7 @@ clear(): clear parity highlights`)
           break
       }
       if (combinedColumns[i] != Foot.NONE && row.mines[i] !== undefined) {
-        cost += WEIGHTS.MINE
+        cost += this.weights.MINE
         break
       }
     }
@@ -222,7 +329,7 @@ clear(): clear parity highlights`)
       ) {
         const previousFoot = initialState.columns.indexOf(combinedColumns[c])
         cost +=
-          WEIGHTS.HOLDSWITCH *
+          this.weights.HOLDSWITCH *
           (previousFoot == -1
             ? 1
             : Math.sqrt(
@@ -243,13 +350,13 @@ clear(): clear parity highlights`)
         row.holds[leftHeel] !== undefined &&
         row.holds[leftToe] === undefined
       ) {
-        cost += WEIGHTS.BRACKETTAP * jackPenalty
+        cost += this.weights.BRACKETTAP * jackPenalty
       }
       if (
         row.holds[leftToe] !== undefined &&
         row.holds[leftHeel] === undefined
       ) {
-        cost += WEIGHTS.BRACKETTAP * jackPenalty
+        cost += this.weights.BRACKETTAP * jackPenalty
       }
     }
 
@@ -265,13 +372,13 @@ clear(): clear parity highlights`)
         row.holds[rightHeel] !== undefined &&
         row.holds[rightToe] === undefined
       ) {
-        cost += WEIGHTS.BRACKETTAP * jackPenalty
+        cost += this.weights.BRACKETTAP * jackPenalty
       }
       if (
         row.holds[rightToe] !== undefined &&
         row.holds[rightHeel] === undefined
       ) {
-        cost += WEIGHTS.BRACKETTAP * jackPenalty
+        cost += this.weights.BRACKETTAP * jackPenalty
       }
     }
 
@@ -403,14 +510,10 @@ clear(): clear parity highlights`)
       if (lastRow !== undefined) {
         for (const hold of lastRow.holds) {
           if (hold === undefined) continue
-          const endBeat =
-            this.app.chartManager.loadedChart!.timingData.getBeatFromSeconds(
-              row.second
-            )
-          const startBeat =
-            this.app.chartManager.loadedChart!.timingData.getBeatFromSeconds(
-              lastRow.second
-            )
+          const endBeat = this.chart.timingData.getBeatFromSeconds(row.second)
+          const startBeat = this.chart.timingData.getBeatFromSeconds(
+            lastRow.second
+          )
           // if a hold tail extends past the last row & ends in between, we can doublestep
           if (
             hold.beat + hold.hold > startBeat &&
@@ -429,7 +532,7 @@ clear(): clear parity highlights`)
 				}*/
 
       if (doublestepped) {
-        cost += WEIGHTS.DOUBLESTEP
+        cost += this.weights.DOUBLESTEP
       }
 
       if (
@@ -437,7 +540,7 @@ clear(): clear parity highlights`)
         resultState.movedFeet.has(Foot.LEFT_HEEL) &&
         resultState.movedFeet.has(Foot.LEFT_TOE)
       ) {
-        cost += WEIGHTS.BRACKETJACK
+        cost += this.weights.BRACKETJACK
       }
 
       if (
@@ -445,7 +548,7 @@ clear(): clear parity highlights`)
         resultState.movedFeet.has(Foot.RIGHT_HEEL) &&
         resultState.movedFeet.has(Foot.RIGHT_TOE)
       ) {
-        cost += WEIGHTS.BRACKETJACK
+        cost += this.weights.BRACKETJACK
       }
     }
 
@@ -454,7 +557,7 @@ clear(): clear parity highlights`)
       movedRight &&
       row.notes.filter(note => note !== undefined).length >= 2
     ) {
-      cost += WEIGHTS.JUMP / elapsedTime
+      cost += this.weights.JUMP / elapsedTime
     }
 
     let endLeftHeel = -1
@@ -506,10 +609,10 @@ clear(): clear parity highlights`)
     const leftFacingPenalty = Math.pow(-Math.min(leftFacing, 0), 1.8) * 100
     const rightFacingPenalty = Math.pow(-Math.min(rightFacing, 0), 1.8) * 100
 
-    if (heelFacingPenalty > 0) cost += heelFacingPenalty * WEIGHTS.FACING
-    if (toesFacingPenalty > 0) cost += toesFacingPenalty * WEIGHTS.FACING
-    if (leftFacingPenalty > 0) cost += leftFacingPenalty * WEIGHTS.FACING
-    if (rightFacingPenalty > 0) cost += rightFacingPenalty * WEIGHTS.FACING
+    if (heelFacingPenalty > 0) cost += heelFacingPenalty * this.weights.FACING
+    if (toesFacingPenalty > 0) cost += toesFacingPenalty * this.weights.FACING
+    if (leftFacingPenalty > 0) cost += leftFacingPenalty * this.weights.FACING
+    if (rightFacingPenalty > 0) cost += rightFacingPenalty * this.weights.FACING
 
     // spin
     const previousLeftPos = this.averagePoint(
@@ -529,7 +632,7 @@ clear(): clear parity highlights`)
       rightPos.y < leftPos.y &&
       previousRightPos.y > previousLeftPos.y
     ) {
-      cost += WEIGHTS.SPIN
+      cost += this.weights.SPIN
     }
     if (
       rightPos.x < leftPos.x &&
@@ -537,7 +640,7 @@ clear(): clear parity highlights`)
       rightPos.y > leftPos.y &&
       previousRightPos.y < previousLeftPos.y
     ) {
-      cost += WEIGHTS.SPIN
+      cost += this.weights.SPIN
     }
 
     // if (
@@ -546,7 +649,7 @@ clear(): clear parity highlights`)
     //   rightPos.x > leftPos.x &&
     //   previousRightPos.x < previousLeftPos.x
     // ) {
-    //   cost += WEIGHTS.SPIN
+    //   cost += this.weights.SPIN
     // }
 
     // Footswitch penalty
@@ -571,29 +674,22 @@ clear(): clear parity highlights`)
             initialState.columns[i] != resultState.columns[i] &&
             !resultState.movedFeet.has(initialState.columns[i])
           ) {
-            cost += Math.pow(timeScaled / 2.0, 2) * WEIGHTS.FOOTSWITCH
+            cost += Math.pow(timeScaled / 2.0, 2) * this.weights.FOOTSWITCH
             break
           }
         }
       }
     }
 
-    if (
-      initialState.columns[0] != resultState.columns[0] &&
-      resultState.columns[0] != Foot.NONE &&
-      initialState.columns[0] != Foot.NONE &&
-      !resultState.movedFeet.has(initialState.columns[0])
-    ) {
-      cost += WEIGHTS.SIDESWITCH
-    }
-
-    if (
-      initialState.columns[3] != resultState.columns[3] &&
-      resultState.columns[3] != Foot.NONE &&
-      initialState.columns[3] != Foot.NONE &&
-      !resultState.movedFeet.has(initialState.columns[3])
-    ) {
-      cost += WEIGHTS.SIDESWITCH
+    for (const col of this.sideColumns) {
+      if (
+        initialState.columns[col] != resultState.columns[col] &&
+        resultState.columns[col] != Foot.NONE &&
+        initialState.columns[col] != Foot.NONE &&
+        !resultState.movedFeet.has(initialState.columns[col])
+      ) {
+        cost += this.weights.SIDESWITCH
+      }
     }
 
     // add penalty if jacked
@@ -603,7 +699,7 @@ clear(): clear parity highlights`)
       (row.mines.some(x => x !== undefined) ||
         row.fakeMines.some(x => x !== undefined))
     ) {
-      cost += WEIGHTS.MISSED_FOOTSWITCH
+      cost += this.weights.MISSED_FOOTSWITCH
     }
 
     // To do: small weighting for swapping heel with toe or toe with heel (both add up)
@@ -614,7 +710,7 @@ clear(): clear parity highlights`)
     if (elapsedTime <= 0.15 && movedLeft != movedRight) {
       const timeScaled = 0.15 - elapsedTime
       if (jackedLeft || jackedRight) {
-        cost += (1 / timeScaled - 1 / 0.15) * WEIGHTS.JACK
+        cost += (1 / timeScaled - 1 / 0.15) * this.weights.JACK
       }
     }
 
@@ -629,7 +725,7 @@ clear(): clear parity highlights`)
             this.layout[resultState.columns.indexOf(foot)]
           )
         ) *
-          WEIGHTS.DISTANCE) /
+          this.weights.DISTANCE) /
         elapsedTime
     }
 
@@ -640,7 +736,7 @@ clear(): clear parity highlights`)
 
   calculatePermuteColumnKey(row: Row): number {
     let permuteCacheKey = 0
-    for (let i = 0; i < 4; i++) {
+    for (let i = 0; i < this.layout.length; i++) {
       if (row.notes[i] !== undefined || row.holds[i] !== undefined) {
         permuteCacheKey += Math.pow(2, i)
       }
@@ -652,12 +748,31 @@ clear(): clear parity highlights`)
     const cacheKey = this.calculatePermuteColumnKey(row)
     let permuteColumns = this.permuteCache.get(cacheKey)
     if (permuteColumns == undefined) {
-      permuteColumns = this.permuteColumn(row, new Array(4).fill(Foot.NONE), 0)
+      permuteColumns = this.permuteColumn(
+        row,
+        new Array(this.layout.length).fill(Foot.NONE),
+        0
+      )
       this.permuteCache.set(cacheKey, permuteColumns)
     }
     return this.permuteCache.get(cacheKey)!
   }
 
+  // Removes the placements that don't use the feet set by hand.
+  // Overrides that can't all be satisfied are ignored for the row.
+  applyOverrides(row: Row, permuteColumns: Foot[][]): Foot[][] {
+    const overrides = row.notes.map(note =>
+      note?.parityOverride === undefined
+        ? undefined
+        : FEET[FEET_LABEL.indexOf(note.parityOverride)]
+    )
+    if (overrides.every(foot => foot === undefined)) return permuteColumns
+    const filtered = permuteColumns.filter(columns =>
+      overrides.every((foot, col) => foot === undefined || columns[col] == foot)
+    )
+    return filtered.length > 0 ? filtered : permuteColumns
+  }
+
   permuteColumn(row: Row, columns: Foot[], column: number): Foot[][] {
     if (column >= columns.length) {
       let leftHeelIndex = -1
@@ -742,7 +857,7 @@ clear(): clear parity highlights`)
                     Math.abs(
                       hold.beat +
                         hold.hold -
-                        this.app.chartManager.loadedChart!.timingData.getBeatFromSeconds(
+                        this.chart.timingData.getBeatFromSeconds(
                           lastColumnSecond!
                         )
                     ) > 0.0005
@@ -790,9 +905,7 @@ clear(): clear parity highlights`)
               Math.abs(
                 hold.beat +
                   hold.hold -
-                  this.app.chartManager.loadedChart!.timingData.getBeatFromSeconds(
-                    lastColumnSecond!
-                  )
+                  this.chart.timingData.getBeatFromSeconds(lastColumnSecond!)
               ) > 0.0005
             ) {
               return false
@@ -808,9 +921,8 @@ clear(): clear parity highlights`)
     return rows
   }
 
-  analyze() {
-    const notedata = this.app.chartManager.loadedChart?.getNotedata()
-    if (!notedata) return []
+  analyze(notedata: Notedata = this.chart.getNotedata()) {
+    if (!notedata.some(note => note.type != "Mine")) return
     const rows = this.createRows(notedata)
 
     const graph = this.buildStateGraph(rows)
@@ -824,7 +936,7 @@ clear(): clear parity highlights`)
     const nodes_for_rows = this.computeCheapestPath(graph)
     for (let i = 0; i < rows.length; i++) {
       const node = graph.nodes[nodes_for_rows[i]]
-      for (let j = 0; j < 4; j++) {
+      for (let j = 0; j < this.layout.length; j++) {
         if (rows[i].notes[j]) {
           rows[i].notes[j]!.parity =
             FEET_LABEL[FEET.indexOf(node.state.columns[j])]
@@ -854,10 +966,13 @@ clear(): clear parity highlights`)
 
     for (let i = 0; i < rows.length; i++) {
       const uniqueNodeIdxs = new Set<number>()
+      const permuteColumns = this.applyOverrides(
+        rows[i],
+        this.getPermuteColumns(rows[i])
+      )
       while (previousStates.length > 0) {
         const state = previousStates.shift()!
         const initialNode = graph.addOrGetExistingNode(state)
-        const permuteColumns = this.getPermuteColumns(rows[i])
         for (const columns of permuteColumns) {
           const resultState: State = this.initResultState(
             state,
@@ -916,7 +1031,7 @@ clear(): clear parity highlights`)
       holdFeet: new Set(),
     }
 
-    for (let i = 0; i < 4; i++) {
+    for (let i = 0; i < this.layout.length; i++) {
       if (columns[i] == undefined) {
         continue
       }
@@ -1046,9 +1161,99 @@ clear(): clear parity highlights`)
     }
   }
 
+  // Finds tech in notedata that has already been analyzed
+  findTech(notedata: Notedata = this.chart.getNotedata()): TechOccurrence[] {
+    const tech: TechOccurrence[] = []
+    const panels: Record<string, number[]> = { L: [], R: [] }
+    const holdEnds: Record<string, number> = {}
+    let lastRow: NotedataEntry[] = []
+    let crossed = false
+    const getFoot = (note: NotedataEntry) => note.parity!.toUpperCase()
+
+    for (let i = 0; i < notedata.length; ) {
+      const beat = notedata[i].beat
+      const row: NotedataEntry[] = []
+      for (; notedata[i]?.beat == beat; i++) {
+        if (notedata[i].parity !== undefined) row.push(notedata[i])
+      }
+      if (row.length == 0) continue
+
+      const feet = new Set(row.map(getFoot))
+      const lastFeet = new Set(lastRow.map(getFoot))
+      if (feet.size == 1 && lastFeet.size == 1) {
+        const foot = getFoot(row[0])
+        const otherFoot = foot == "L" ? "R" : "L"
+        // Stepping twice with one foot is forced if the other foot is holding
+        if (
+          lastFeet.has(foot) &&
+          (holdEnds[otherFoot] ?? -1) < beat &&
+          row.some(note => !lastRow.some(last => last.col == note.col))
+        )
+          tech.push({ type: "Doublestep", beat })
+      }
+
+      const repeated = row.filter(note =>
+        lastRow.some(last => last.col == note.col)
+      )
+      const switched = repeated.filter(note =>
+        lastRow.some(
+          last => last.col == note.col && getFoot(last) != getFoot(note)
+        )
+      )
+      if (switched.some(note => !this.sideColumns.includes(note.col)))
+        tech.push({ type: "Footswitch", beat })
+      else if (switched.length > 0) tech.push({ type: "Sideswitch", beat })
+      if (repeated.length > switched.length) tech.push({ type: "Jack", beat })
+
+      if (
+        [...feet].some(
+          foot => row.filter(note => getFoot(note) == foot).length > 1
+        )
+      )
+        tech.push({ type: "Bracket", beat })
+
+      // A foot going straight across the center of the pad
+      for (const foot of feet) {
+        const cols = row.filter(note => getFoot(note) == foot)
+        if (cols.length != 1 || panels[foot].length != 1) continue
+        const from = this.layout[panels[foot][0]]
+        const to = this.layout[cols[0].col]
+        if (from.x == to.x && Math.abs(from.y - to.y) >= 2) {
+          tech.push({ type: "Candle", beat })
+          break
+        }
+      }
+
+      const lastLeft = this.getPosition(panels.L)
+      const lastRight = this.getPosition(panels.R)
+      for (const foot of feet)
+        panels[foot] = row
+          .filter(note => getFoot(note) == foot)
+          .map(note => note.col)
+      for (const note of row) {
+        if (isHoldNote(note)) holdEnds[getFoot(note)] = note.beat + note.hold
+      }
+      const left = this.getPosition(panels.L)
+      const right = this.getPosition(panels.R)
+      const isCrossed = !!left && !!right && left.x > right.x
+      if (isCrossed && !crossed) tech.push({ type: "Crossover", beat })
+      // Staying crossed while the feet swap front and back turns the body
+      // all the way around
+      else if (
+        isCrossed &&
+        lastLeft &&
+        lastRight &&
+        Math.sign(left.y - right.y) * Math.sign(lastLeft.y - lastRight.y) < 0
+      )
+        tech.push({ type: "Spin", beat })
+      crossed = isCrossed
+      lastRow = row
+    }
+    return tech
+  }
+
   clear() {
-    const notedata = this.app.chartManager.loadedChart?.getNotedata()
-    if (!notedata) return
+    const notedata = this.chart.getNotedata()
     notedata.forEach(note => (note.parity = undefined))
   }
 }
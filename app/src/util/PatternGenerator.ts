@@ -0,0 +1,212 @@
+import { Chart } from "../chart/sm/Chart"
+import { PartialTapNotedataEntry } from "../chart/sm/NoteTypes"
+import { ParityGenerator, TechType } from "./ParityGenerator"
+
+export const PATTERN_MODES = [
+  "Stream",
+  "Crossovers",
+  "Jumpstream",
+  "Drills",
+  "Trills",
+  "Staircases",
+  "Random",
+] as const
+
+export type PatternMode = (typeof PATTERN_MODES)[number]
+
+// Notes per second allowed for each point of meter when generating charts
+export const NPS_PER_METER = 0.9
+
+export interface PatternOptions {
+  mode: PatternMode
+  startBeat: number
+  endBeat: number
+  // Beats between rows
+  snap: number
+  // Chance of a row being a jump in jumpstream, from 0 to 100
+  jumpPercent: number
+}
+
+// Rows before the new row that are analyzed with it
+const PARITY_CONTEXT = 8
+
+// Tech that rules out a row in the modes that pick rows at random
+const AVOIDED_TECH: Partial<Record<PatternMode, TechType[]>> = {
+  Stream: ["Doublestep", "Candle", "Crossover", "Spin"],
+  Crossovers: ["Doublestep", "Candle", "Spin"],
+  Jumpstream: ["Doublestep", "Candle", "Crossover", "Spin", "Bracket"],
+  Random: ["Doublestep"],
+}
+
+/**
+ * Generates taps at every snap from startBeat to endBeat, inclusive.
+ * Rows are never jacks, and the parity generator is used to avoid
+ * doublesteps and other tech the mode doesn't call for.
+ *
+ * @export
+ * @param {Chart} chart
+ * @param {PatternOptions} options
+ * @return {*}  {PartialTapNotedataEntry[]}
+ */
+export function generatePattern(
+  chart: Chart,
+  options: PatternOptions
+): PartialTapNotedataEntry[] {
+  const beats: number[] = []
+  for (let i = 0; ; i++) {
+    const beat = Math.round((options.startBeat + i * options.snap) * 48) / 48
+    if (beat > options.endBeat) break
+    beats.push(beat)
+  }
+  const jumps = beats.map(
+    () =>
+      options.mode == "Jumpstream" && Math.random() * 100 < options.jumpPercent
+  )
+  const rows = generateColumns(chart, options.mode, beats, jumps)
+  return rows.flatMap((cols, i) =>
+    cols.map(col => ({ beat: beats[i], col, type: "Tap" }))
+  )
+}
+
+/**
+ * Picks the columns of a row at each beat. Rows marked in jumps get two
+ * columns in the modes that pick rows at random.
+ *
+ * @export
+ * @param {Chart} chart
+ * @param {PatternMode} mode
+ * @param {number[]} beats
+ * @param {boolean[]} [jumps=[]]
+ * @return {*}  {number[][]}
+ */
+export function generateColumns(
+  chart: Chart,
+  mode: PatternMode,
+  beats: number[],
+  jumps: boolean[] = []
+): number[][] {
+  const numCols = chart.gameType.numCols
+  switch (mode) {
+    case "Drills":
+    case "Trills": {
+      const [a, b] = randomItem(getPairs(chart, mode))
+      return beats.map((_, i) => [i % 2 == 0 ? a : b])
+    }
+    case "Staircases": {
+      // Go up and back down without repeating the ends
+      const period = 2 * (numCols - 1)
+      const start = Math.floor(Math.random() * period)
+      return beats.map((_, i) => {
+        const step = (start + i) % period
+        return [step < numCols ? step : period - step]
+      })
+    }
+  }
+
+  const generator = ParityGenerator.isSupported(chart.gameType.id)
+    ? new ParityGenerator(chart, chart.gameType.id)
+    : undefined
+  const avoided = AVOIDED_TECH[mode] ?? []
+  // Start from the notes before the pattern so it connects to them
+  const placed = getRowsBefore(chart, beats[0] ?? 0)
+  const rows: number[][] = []
+  for (const [index, beat] of beats.entries()) {
+    const previous = placed.at(-1)?.cols ?? []
+    const free = [...Array(numCols).keys()].filter(
+      col => !previous.includes(col)
+    )
+    const candidates = shuffle(
+      jumps[index] && free.length > 1
+        ? free.flatMap((a, i) => free.slice(i + 1).map(b => [a, b]))
+        : free.map(col => [col])
+    )
+
+    let cols = candidates[0]
+    if (generator) {
+      const context = placed.slice(-PARITY_CONTEXT)
+      const findTech = (candidate: number[]) =>
+        getTech(chart, generator, [...context, { beat, cols: candidate }])
+      const isValid = (tech: TechType[]) =>
+        !tech.some(type => avoided.includes(type))
+      if (mode == "Crossovers") {
+        const techs = candidates.map(findTech)
+        cols =
+          candidates.find(
+            (_, i) => isValid(techs[i]) && techs[i].includes("Crossover")
+          ) ??
+          candidates.find((_, i) => isValid(techs[i])) ??
+          cols
+      } else {
+        cols =
+          candidates.find(candidate => isValid(findTech(candidate))) ?? cols
+      }
+    }
+    placed.push({ beat, cols })
+    rows.push(cols)
+  }
+  return rows
+}
+
+// Finds the tech of the last row, with the rows before it as context
+function getTech(
+  chart: Chart,
+  generator: ParityGenerator,
+  rows: { beat: number; cols: number[] }[]
+) {
+  const notedata = rows.flatMap(row =>
+    row.cols.map(col => chart.computeNote({ beat: row.beat, col, type: "Tap" }))
+  )
+  generator.analyze(notedata)
+  const lastBeat = rows.at(-1)!.beat
+  return generator
+    .findTech(notedata)
+    .filter(occurrence => occurrence.beat == lastBeat)
+    .map(occurrence => occurrence.type)
+}
+
+function getRowsBefore(chart: Chart, beat: number) {
+  const rows: { beat: number; cols: number[] }[] = []
+  for (const note of chart.getNotedata()) {
+    if (note.beat >= beat) break
+    if (note.type == "Mine" || note.fake || note.warped) continue
+    if (rows.at(-1)?.beat != note.beat) rows.push({ beat: note.beat, cols: [] })
+    rows.at(-1)!.cols.push(note.col)
+  }
+  return rows.slice(-PARITY_CONTEXT)
+}
+
+// Trills alternate between panels next to each other, drills between
+// panels on opposite sides of the pad
+function getPairs(chart: Chart, mode: "Drills" | "Trills") {
+  const numCols = chart.gameType.numCols
+  const panels = ParityGenerator.getPanels(chart.gameType.id)
+  const pairs: [number, number][] = []
+  for (let a = 0; a < numCols; a++) {
+    for (let b = a + 1; b < numCols; b++) {
+      if (panels.length == 0) {
+        if (mode == "Trills" ? b == a + 1 : b - a >= numCols / 2)
+          pairs.push([a, b])
+        continue
+      }
+      const dx = Math.abs(panels[a].x - panels[b].x)
+      const dy = Math.abs(panels[a].y - panels[b].y)
+      if (mode == "Trills" ? dx * dx + dy * dy <= 2 : dy == 0 && dx == 2)
+        pairs.push([a, b])
+    }
+  }
+  if (pairs.length == 0) pairs.push([0, numCols - 1])
+  // Either panel can come first
+  return pairs.map(([a, b]) => (Math.random() < 0.5 ? [a, b] : [b, a]))
+}
+
+function randomItem<T>(items: T[]): T {
+  return items[Math.floor(Math.random() * items.length)]
+}
+
+function shuffle<T>(items: T[]): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1))
+    ;[items[i], items[j]] = [items[j], items[i]]
+  }
+  return items
+}
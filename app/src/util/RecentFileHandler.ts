@@ -54,6 +54,14 @@ export class RecentFileHandler {
     this.saveEntries()
   }
 
+  public static getLastPack() {
+    return localStorage.getItem("lastPack") ?? undefined
+  }
+
+  public static setLastPack(path: string) {
+    localStorage.setItem("lastPack", path)
+  }
+
   private static async limitEntries() {
     ;(await this.getModel()).splice(15)
   }
@@ -0,0 +1,99 @@
+import { Chart } from "../chart/sm/Chart"
+import { roundDigit } from "./Math"
+
+export const BREAKDOWN_QUANTS = [16, 20, 24, 32]
+
+export interface StreamBreakdown {
+  quant: number
+  breakdown: string
+  streamMeasures: number
+  // Measures from the start of the first run to the end of the last run
+  totalMeasures: number
+  density: number
+}
+
+/**
+ * Groups measures that are fully streamed at the given quant into runs.
+ * Runs are separated by "-" for one measure of break, "*" for two or
+ * three, and "(n)" for longer breaks, e.g. `16 (4) 32 - 8 * 24`.
+ *
+ * @export
+ * @param {Chart} chart
+ * @param {number} [quant=16]
+ * @return {*}  {StreamBreakdown}
+ */
+export function getStreamBreakdown(chart: Chart, quant = 16): StreamBreakdown {
+  const timingData = chart.timingData
+  const measureRows = new Map<number, Set<number>>()
+  for (const note of chart.getNotedata()) {
+    if (note.type == "Mine" || note.fake || note.warped) continue
+    const measure = Math.floor(timingData.getMeasure(note.beat))
+    if (!measureRows.has(measure)) measureRows.set(measure, new Set())
+    measureRows.get(measure)!.add(note.beat)
+  }
+
+  // Time signatures change how many rows make a full measure
+  const streamed = [...measureRows.keys()]
+    .filter(measure => {
+      const length =
+        timingData.getBeatFromMeasure(measure + 1) -
+        timingData.getBeatFromMeasure(measure)
+      return measureRows.get(measure)!.size >= (length * quant) / 4
+    })
+    .sort((a, b) => a - b)
+
+  const parts: string[] = []
+  let runStart = streamed[0]
+  for (let i = 0; i < streamed.length; i++) {
+    const next = streamed[i + 1]
+    if (next == streamed[i] + 1) continue
+    parts.push((streamed[i] - runStart + 1).toString())
+    if (next === undefined) break
+    const gap = next - streamed[i] - 1
+    if (gap == 1) parts.push("-")
+    else if (gap <= 3) parts.push("*")
+    else parts.push(`(${gap})`)
+    runStart = next
+  }
+
+  const totalMeasures =
+    streamed.length > 0 ? streamed.at(-1)! - streamed[0] + 1 : 0
+  return {
+    quant,
+    breakdown: parts.join(" "),
+    streamMeasures: streamed.length,
+    totalMeasures,
+    density: totalMeasures > 0 ? streamed.length / totalMeasures : 0,
+  }
+}
+
+/**
+ * Formats the breakdown of every quant that has stream, followed by the
+ * total 16th stream.
+ *
+ * @export
+ * @param {Chart} chart
+ * @return {*}  {string}
+ */
+export function formatStreamBreakdown(chart: Chart): string {
+  const breakdowns = BREAKDOWN_QUANTS.map(quant =>
+    getStreamBreakdown(chart, quant)
+  )
+  if (breakdowns[0].streamMeasures == 0) return "No stream"
+  const lines = breakdowns
+    .filter(breakdown => breakdown.streamMeasures > 0)
+    .map(
+      breakdown =>
+        `${breakdown.quant}${breakdown.quant == 32 ? "nds" : "ths"}: ${
+          breakdown.breakdown
+        }`
+    )
+  const total = breakdowns[0]
+  lines.push(
+    `Total stream: ${total.streamMeasures}/${total.totalMeasures} (${roundDigit(
+      total.density * 100,
+      1
+    )}%)`
+  )
+  return lines.join("\n")
+}
@@ -0,0 +1,63 @@
+import { Simfile } from "../chart/sm/Simfile"
+import { roundDigit } from "./Math"
+
+export const SYNC_BIASES = ["ITG", "Null"] as const
+
+export type SyncBias = (typeof SYNC_BIASES)[number]
+
+// Songs synced to ITG machines have offsets this much higher than songs
+// synced to null, in seconds
+export const ITG_BIAS = 0.009
+
+/**
+ * Returns the bias the simfile is marked as synced to with #SYNCBIAS.
+ *
+ * @export
+ * @param {Simfile} sm
+ * @return {*}  {(SyncBias | undefined)}
+ */
+export function getSyncBias(sm: Simfile): SyncBias | undefined {
+  const value = sm.other_properties["SYNCBIAS"]?.trim().toLowerCase()
+  return SYNC_BIASES.find(bias => bias.toLowerCase() == value)
+}
+
+export function setSyncBias(sm: Simfile, bias: SyncBias | undefined) {
+  if (bias === undefined) delete sm.other_properties["SYNCBIAS"]
+  else sm.other_properties["SYNCBIAS"] = bias
+}
+
+/**
+ * Returns the seconds to add to the offsets of a song synced to one bias to
+ * sync it to the other.
+ *
+ * @export
+ * @param {SyncBias} from
+ * @param {SyncBias} to
+ * @return {*}  {number}
+ */
+export function getBiasShift(from: SyncBias, to: SyncBias): number {
+  const getBias = (bias: SyncBias) => (bias == "ITG" ? ITG_BIAS : 0)
+  return getBias(to) - getBias(from)
+}
+
+/**
+ * Adds the shift to the simfile offset and every chart-specific offset.
+ * The timing caches are not reloaded.
+ *
+ * @export
+ * @param {Simfile} sm
+ * @param {number} shift
+ */
+export function shiftOffsets(sm: Simfile, shift: number) {
+  sm.timingData.parse(
+    "OFFSET",
+    roundDigit(sm.timingData.getOffset() + shift, 3).toString()
+  )
+  for (const chart of Object.values(sm.charts).flat()) {
+    if (!chart.timingData.hasChartOffset()) continue
+    chart.timingData.parse(
+      "OFFSET",
+      roundDigit(chart.timingData.getOffset() + shift, 3).toString()
+    )
+  }
+}
@@ -0,0 +1,231 @@
+import { BeatMap, anchorBeatMap } from "./BeatTracker"
+import { roundDigit } from "./Math"
+
+export interface TapSection {
+  // Beat the section starts on
+  beat: number
+  bpm: number
+  taps: number
+  // Root mean square of the residuals, in seconds
+  error: number
+}
+
+export interface TapResult {
+  second: number
+  // Distance from the fitted beat, in seconds
+  residual: number
+  outlier: boolean
+}
+
+export interface TapFit {
+  beatMap: BeatMap
+  sections: TapSection[]
+  taps: TapResult[]
+}
+
+// Taps further than this from the fit are outliers or start a new section,
+// in seconds and as a part of the beat length
+const MIN_TOLERANCE = 0.04
+const TOLERANCE_PART = 0.08
+// Taps closer than this to the last tap are treated as the same tap
+const MIN_TAP_GAP = 0.15
+// Number of taps before a tempo change is noticed that can start the section
+const SPLIT_SEARCH = 4
+
+interface TapPoint {
+  second: number
+  index: number
+}
+
+interface SectionModel {
+  index: number
+  second: number
+  // Seconds between taps
+  period: number
+}
+
+/**
+ * Fits BPMs and an offset to taps made on every beat or downbeat. The tempo
+ * is fitted with a regression for each section, and a new section starts
+ * when two taps in a row are off from the current tempo. Single taps that
+ * are off are ignored as outliers. Skipped taps are allowed.
+ *
+ * @export
+ * @param {number[]} times The seconds of each tap
+ * @param {number} beatsPerTap
+ * @return {*}  {(TapFit | undefined)}
+ */
+export function fitTaps(
+  times: number[],
+  beatsPerTap: number
+): TapFit | undefined {
+  times = [...times].sort((a, b) => a - b)
+  const points: TapPoint[] = []
+  // Index in points that each section starts at
+  const starts: number[] = []
+  const models: SectionModel[] = []
+  const outliers: TapResult[] = []
+
+  const getModel = () => fitSection(points.slice(starts.at(-1)), models.at(-1))
+  const getIndex = (second: number, model?: SectionModel) => {
+    const last = points.at(-1)!
+    const period = model?.period ?? second - last.second
+    return last.index + Math.round((second - last.second) / period)
+  }
+
+  for (const [i, second] of times.entries()) {
+    if (points.length == 0) {
+      points.push({ second, index: 0 })
+      starts.push(0)
+      continue
+    }
+    const hasModel = points.length - starts.at(-1)! >= 2
+    const model = hasModel ? getModel() : undefined
+    const index = getIndex(second, model)
+    if (
+      index <= points.at(-1)!.index ||
+      second - points.at(-1)!.second < MIN_TAP_GAP
+    ) {
+      // A second tap on the same beat
+      outliers.push({
+        second,
+        residual: model ? second - predict(model, index) : 0,
+        outlier: true,
+      })
+      continue
+    }
+    if (model) {
+      const residual = second - predict(model, index)
+      if (Math.abs(residual) > getTolerance(model)) {
+        const next = times[i + 1]
+        const nextResidual =
+          next === undefined ? 0 : next - predict(model, getIndex(next, model))
+        if (Math.abs(nextResidual) <= getTolerance(model)) {
+          outliers.push({ second, residual, outlier: true })
+          continue
+        }
+        // The tempo changed. It's often noticed a few taps late, so start
+        // the new section where the two tempos fit the taps best
+        const start = starts.at(-1)!
+        const tap = { second, index }
+        let best = { error: Infinity, split: start, model }
+        for (
+          let split = Math.max(start + 1, points.length - SPLIT_SEARCH);
+          split < points.length;
+          split++
+        ) {
+          const before = points.slice(start, split + 1)
+          const after = [...points.slice(split), tap]
+          const beforeModel = fitSection(before, models.at(-1))
+          const error =
+            getSquaredError(before, beforeModel) +
+            getSquaredError(after, fitSection(after, beforeModel))
+          if (error < best.error) best = { error, split, model: beforeModel }
+        }
+        models.push(best.model)
+        starts.push(best.split)
+      }
+    }
+    points.push({ second, index })
+  }
+  if (points.length < 2) return undefined
+  models.push(getModel())
+
+  const taps: TapResult[] = [...outliers]
+  const sections: TapSection[] = models.map((model, k) => {
+    const sectionPoints = points.slice(starts[k], starts[k + 1] ?? Infinity)
+    for (const point of sectionPoints) {
+      const residual = point.second - predict(model, point.index)
+      taps.push({ second: point.second, residual, outlier: false })
+    }
+    return {
+      beat: model.index * beatsPerTap,
+      bpm: roundDigit((60 * beatsPerTap) / model.period, 3),
+      taps: sectionPoints.length,
+      error: Math.sqrt(
+        getSquaredError(sectionPoints, model) / sectionPoints.length
+      ),
+    }
+  })
+  taps.sort((a, b) => a.second - b.second)
+
+  return {
+    beatMap: createTapBeatMap(
+      models[0].second,
+      sections,
+      points.at(-1)!.index * beatsPerTap,
+      beatsPerTap
+    ),
+    sections,
+    taps,
+  }
+}
+
+// Fits a line to the taps of a section. Sections after the first start
+// where the previous section ends so the BPMs line up.
+function fitSection(points: TapPoint[], previous?: SectionModel) {
+  if (previous) {
+    const index = points[0].index
+    const second = predict(previous, index)
+    let moments = 0
+    let squares = 0
+    for (const point of points) {
+      moments += (point.index - index) * (point.second - second)
+      squares += (point.index - index) ** 2
+    }
+    return { index, second, period: moments / squares }
+  }
+  const meanIndex = points.reduce((a, b) => a + b.index, 0) / points.length
+  const meanSecond = points.reduce((a, b) => a + b.second, 0) / points.length
+  let moments = 0
+  let squares = 0
+  for (const point of points) {
+    moments += (point.index - meanIndex) * (point.second - meanSecond)
+    squares += (point.index - meanIndex) ** 2
+  }
+  const period = moments / squares
+  const index = points[0].index
+  return {
+    index,
+    second: meanSecond + (index - meanIndex) * period,
+    period,
+  }
+}
+
+function predict(model: SectionModel, index: number) {
+  return model.second + (index - model.index) * model.period
+}
+
+function getSquaredError(points: TapPoint[], model: SectionModel) {
+  return points.reduce(
+    (sum, point) => sum + (point.second - predict(model, point.index)) ** 2,
+    0
+  )
+}
+
+function getTolerance(model: SectionModel) {
+  return Math.max(MIN_TOLERANCE, model.period * TOLERANCE_PART)
+}
+
+// Lays out the beats of the rounded BPMs, starting from the first tap. Taps
+// on downbeats keep the first tap on a downbeat.
+function createTapBeatMap(
+  start: number,
+  sections: TapSection[],
+  lastBeat: number,
+  beatsPerTap: number
+): BeatMap {
+  const beats = [start]
+  let section = 0
+  for (let beat = 1; beat <= lastBeat; beat++) {
+    while (sections[section + 1] && sections[section + 1].beat < beat) section++
+    beats.push(beats.at(-1)! + 60 / sections[section].bpm)
+  }
+
+  const bpms: BeatMap["bpms"] = []
+  for (const section of sections) {
+    if (bpms.at(-1)?.value == section.bpm) continue
+    bpms.push({ beat: bpms.length == 0 ? 0 : section.beat, value: section.bpm })
+  }
+  return anchorBeatMap(beats, bpms, beatsPerTap)
+}
@@ -0,0 +1,266 @@
+import { Chart } from "../chart/sm/Chart"
+import { ChartTimingData } from "../chart/sm/ChartTimingData"
+import { BeatTimingCache, Cached, TimingEvent } from "../chart/sm/TimingTypes"
+import { roundDigit } from "./Math"
+
+export const TIMING_CONVERSIONS = [
+  "Negative BPMs and stops to warps",
+  "Warps to high BPMs",
+  "Delays to stops",
+  "Stops to delays",
+] as const
+
+export type TimingConversion = (typeof TIMING_CONVERSIONS)[number]
+
+export interface TimingConversionResult {
+  removed: Cached<TimingEvent>[]
+  added: TimingEvent[]
+}
+
+export interface NoteTiming {
+  second: number
+  warped: boolean
+}
+
+export interface TimingVerification {
+  notes: number
+  // Hittable notes that moved more than the tolerance
+  moved: number
+  // Notes that became warped or stopped being warped
+  warpChanged: number
+  // Largest change in seconds
+  maxError: number
+}
+
+// Stops and delays on rows with notes are moved by one 192nd so the notes
+// on them keep their time
+const ROW_SHIFT = 1 / 48
+// Time spent in the high BPM that replaces a warp, in seconds
+const WARP_SECONDS = 0.0001
+// Largest change in a note's time that still counts as the same, in seconds
+const TOLERANCE = 0.001
+
+/**
+ * Rewrites the timing events of the chart between the beats into an
+ * equivalent form, keeping the time of every note the same.
+ *
+ * @export
+ * @param {Chart} chart
+ * @param {TimingConversion} conversion
+ * @param {number} startBeat
+ * @param {number} endBeat
+ * @return {*}  {TimingConversionResult}
+ */
+export function convertTiming(
+  chart: Chart,
+  conversion: TimingConversion,
+  startBeat: number,
+  endBeat: number
+): TimingConversionResult {
+  const timingData = chart.timingData
+  const inRange = (event: Cached<TimingEvent>) =>
+    event.beat >= startBeat && event.beat <= endBeat
+  switch (conversion) {
+    case "Negative BPMs and stops to warps":
+      return negativesToWarps(timingData, inRange)
+    case "Warps to high BPMs":
+      return warpsToBPMs(chart, inRange)
+    case "Delays to stops":
+      return moveTimingEvents(chart, inRange, "DELAYS", "STOPS", -ROW_SHIFT)
+    case "Stops to delays":
+      return moveTimingEvents(chart, inRange, "STOPS", "DELAYS", ROW_SHIFT)
+  }
+}
+
+/**
+ * Returns the time of every note in the chart.
+ *
+ * @export
+ * @param {Chart} chart
+ * @return {*}  {NoteTiming[]}
+ */
+export function getNoteTimings(chart: Chart): NoteTiming[] {
+  return chart.getNotedata().map(note => {
+    const computed = chart.computeNote({ ...note })
+    return { second: computed.second, warped: computed.warped }
+  })
+}
+
+/**
+ * Compares the time of every note before and after a conversion.
+ *
+ * @export
+ * @param {NoteTiming[]} before
+ * @param {NoteTiming[]} after
+ * @return {*}  {TimingVerification}
+ */
+export function verifyNoteTimings(
+  before: NoteTiming[],
+  after: NoteTiming[]
+): TimingVerification {
+  const result = { notes: before.length, moved: 0, warpChanged: 0, maxError: 0 }
+  before.forEach((note, i) => {
+    if (note.warped != after[i].warped) result.warpChanged++
+    // Warped notes are never hit, so their time doesn't matter
+    if (note.warped || after[i].warped) return
+    const error = Math.abs(note.second - after[i].second)
+    result.maxError = Math.max(result.maxError, error)
+    if (error > TOLERANCE) result.moved++
+  })
+  return result
+}
+
+function negativesToWarps(
+  timingData: ChartTimingData,
+  inRange: (event: Cached<TimingEvent>) => boolean
+): TimingConversionResult {
+  const cache = timingData.getBeatTiming()
+  const result: TimingConversionResult = { removed: [], added: [] }
+  let warpEnd = -Infinity
+  for (const event of timingData.getTimingData("BPMS", "STOPS")) {
+    if (!inRange(event) || event.value >= 0) continue
+    // Inside a warp that was already made
+    if (event.beat < warpEnd) {
+      result.removed.push(event)
+      continue
+    }
+    const entry = cache.find(entry => entry.beat == event.beat)
+    if (!entry) continue
+    const second = Math.max(entry.secondBefore, entry.secondClamp)
+    const end = getCatchUpBeat(cache, event.beat, second)
+    if (end === undefined) continue
+    const length = roundDigit(end - event.beat, 3)
+    if (event.type == "BPMS") {
+      const bpm = timingData.getEventAtBeat("BPMS", end)?.value
+      if (bpm === undefined || bpm <= 0) continue
+      result.added.push(createEvent(timingData, "BPMS", event.beat, bpm))
+    }
+    result.removed.push(event)
+    // Like in SM5, notes on the row the warp starts on can't be hit anymore
+    if (length > 0)
+      result.added.push(createEvent(timingData, "WARPS", event.beat, length))
+    warpEnd = end
+  }
+  return result
+}
+
+// Finds the first beat after the given beat where the song gets back to the
+// second, which is where the skipped part ends
+function getCatchUpBeat(
+  cache: BeatTimingCache[],
+  beat: number,
+  second: number
+) {
+  for (let i = 0; i < cache.length; i++) {
+    const entry = cache[i]
+    const end = cache[i + 1]?.beat ?? Infinity
+    if (end <= beat) continue
+    if (entry.beat > beat && entry.secondAfter >= second) return entry.beat
+    if (entry.warped || entry.bpm <= 0) continue
+    const start = Math.max(beat, entry.beat)
+    const startSecond =
+      entry.secondAfter + ((start - entry.beat) * 60) / entry.bpm
+    const catchUp = start + ((second - startSecond) * entry.bpm) / 60
+    if (catchUp <= end) return Math.max(start, catchUp)
+  }
+  return undefined
+}
+
+function warpsToBPMs(
+  chart: Chart,
+  inRange: (event: Cached<TimingEvent>) => boolean
+): TimingConversionResult {
+  const timingData = chart.timingData
+  const result: TimingConversionResult = { removed: [], added: [] }
+  const bpms = timingData.getTimingData("BPMS")
+  const stops = timingData.getTimingData("STOPS")
+  const pauses = timingData.getTimingData("STOPS", "DELAYS")
+  const noteRows = new Set(
+    chart.getNotedata().map(note => roundDigit(note.beat, 3))
+  )
+  for (const warp of timingData.getTimingData("WARPS")) {
+    if (!inRange(warp) || warp.value <= 0) continue
+    const end = warp.beat + warp.value
+    const bpm = timingData.getEventAtBeat("BPMS", end)?.value
+    if (bpm === undefined) continue
+    const isInside = (event: Cached<TimingEvent>) =>
+      event.beat > warp.beat && event.beat < end
+    // Stops and delays inside the warp still take time. Like in SM5, notes
+    // on their rows can be hit, so the ones before the first of those rows
+    // are folded into a stop where the warp starts and the rest are kept
+    const inside = pauses.filter(isInside)
+    const firstHit = Math.min(
+      ...inside
+        .filter(event => noteRows.has(roundDigit(event.beat, 3)))
+        .map(event => event.beat)
+    )
+    const skipped = inside.filter(event => event.beat < firstHit)
+    result.removed.push(warp, ...bpms.filter(isInside), ...skipped)
+    result.added.push(
+      createEvent(
+        timingData,
+        "BPMS",
+        warp.beat,
+        roundDigit((warp.value * 60) / WARP_SECONDS, 3)
+      )
+    )
+    if (!bpms.some(event => event.beat == end))
+      result.added.push(createEvent(timingData, "BPMS", end, bpm))
+    if (skipped.length > 0) {
+      const value =
+        skipped.reduce((sum, event) => sum + event.value, 0) +
+        (stops.find(event => event.beat == warp.beat)?.value ?? 0)
+      result.added.push(createEvent(timingData, "STOPS", warp.beat, value))
+    }
+  }
+  return result
+}
+
+// Stops and delays on rows without notes are the same, so those stay on their
+// row. Otherwise stops become delays on the next row and delays become stops
+// on the previous row.
+function moveTimingEvents(
+  chart: Chart,
+  inRange: (event: Cached<TimingEvent>) => boolean,
+  from: "STOPS" | "DELAYS",
+  to: "STOPS" | "DELAYS",
+  shift: number
+): TimingConversionResult {
+  const timingData = chart.timingData
+  const result: TimingConversionResult = { removed: [], added: [] }
+  const existing = timingData.getTimingData(to)
+  const noteRows = new Set(
+    chart.getNotedata().map(note => Math.round(note.beat * 48))
+  )
+  for (const event of timingData.getTimingData(from)) {
+    if (!inRange(event) || event.value <= 0) continue
+    const row = Math.round(event.beat * 48)
+    // Beats are floored to 3 decimals when finding their time, so the event
+    // lands on the same row as the notes there
+    const beat = noteRows.has(row)
+      ? Math.floor(((row + shift * 48) / 48) * 1000) / 1000
+      : event.beat
+    if (beat < 0) continue
+    const value =
+      event.value +
+      (existing.find(other => Math.abs(other.beat - beat) < 0.0001)?.value ?? 0)
+    result.removed.push(event)
+    result.added.push(createEvent(timingData, to, beat, value))
+  }
+  return result
+}
+
+function createEvent(
+  timingData: ChartTimingData,
+  type: "BPMS" | "STOPS" | "DELAYS" | "WARPS",
+  beat: number,
+  value: number
+): TimingEvent {
+  const event: TimingEvent & { isChartTiming: boolean } = {
+    type,
+    beat: roundDigit(beat, 3),
+    value,
+    isChartTiming: timingData.isPropertyChartSpecific(type),
+  }
+  return event
+}
@@ -4,6 +4,7 @@ import {
   support,
 } from "file-system-access"
 import JSZip from "jszip"
+import { SIMFILE_EXT } from "../../data/FileData"
 import { WaterfallManager } from "../../gui/element/WaterfallManager"
 import { basename, dirname, extname } from "../Path"
 import { BaseFileHandler } from "./FileHandler"
@@ -104,7 +105,7 @@ export class WebFileHandler implements BaseFileHandler {
       for (let i = 0; i < items.length; i++) {
         const item = items[i].webkitGetAsEntry()
         if (item?.isFile) {
-          if (item.name.endsWith(".sm") || item.name.endsWith(".ssc")) {
+          if (SIMFILE_EXT.some(ext => item.name.endsWith(ext))) {
             prefix = "New Song"
             break
           }
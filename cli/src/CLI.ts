@@ -0,0 +1,51 @@
+import { COMMANDS, CommandArgs } from "./Commands"
+
+function printUsage() {
+  console.log("Usage: smeditor <command> [options]\n")
+  console.log(
+    "Paths can be simfiles or folders, which are searched recursively.\n"
+  )
+  for (const command of Object.values(COMMANDS)) {
+    console.log(`  ${command.usage}`)
+    console.log(`      ${command.description}`)
+  }
+}
+
+function parseArgs(args: string[]): CommandArgs {
+  const parsed: CommandArgs = { paths: [], flags: {} }
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+    if (!arg.startsWith("--")) {
+      parsed.paths.push(arg)
+      continue
+    }
+    const [name, value] = arg.slice(2).split("=", 2)
+    if (value !== undefined) parsed.flags[name] = value
+    else if (["to", "out"].includes(name) && args[i + 1] !== undefined)
+      parsed.flags[name] = args[++i]
+    else parsed.flags[name] = true
+  }
+  return parsed
+}
+
+async function main() {
+  const [name, ...args] = process.argv.slice(2)
+  const command = COMMANDS[name]
+  if (!command) {
+    printUsage()
+    return name === undefined || name == "help" ? 0 : 2
+  }
+  const parsed = parseArgs(args)
+  if (parsed.paths.length == 0) {
+    console.error(`Usage: smeditor ${command.usage}`)
+    return 2
+  }
+  return command.run(parsed)
+}
+
+main()
+  .then(code => (process.exitCode = code))
+  .catch((error: Error) => {
+    console.error(error.message)
+    process.exitCode = 1
+  })
@@ -0,0 +1,238 @@
+import { access, readFile, writeFile } from "fs/promises"
+import { basename, dirname, extname, join, resolve } from "path"
+import { simfileToLegacySM } from "../../app/src/chart/convert/LegacySMConverter"
+import { Chart } from "../../app/src/chart/sm/Chart"
+import { Simfile } from "../../app/src/chart/sm/Simfile"
+import { roundDigit } from "../../app/src/util/Math"
+import { ParityGenerator } from "../../app/src/util/ParityGenerator"
+import { findSimfiles, getSimfileType, loadSimfile } from "./Files"
+
+export interface CommandArgs {
+  paths: string[]
+  flags: Record<string, string | boolean>
+}
+
+export interface Command {
+  usage: string
+  description: string
+  run: (args: CommandArgs) => Promise<number>
+}
+
+async function exists(path: string) {
+  try {
+    await access(path)
+    return true
+  } catch {
+    return false
+  }
+}
+
+function getChartLabel(chart: Chart) {
+  return `${chart.gameType.id} ${chart.difficulty} ${chart.meter}`
+}
+
+function getCharts(sm: Simfile) {
+  return Object.values(sm.charts).flat()
+}
+
+async function validate({ paths }: CommandArgs) {
+  let errors = 0
+  let warnings = 0
+  for (const path of await findSimfiles(paths)) {
+    const sm = await loadSimfile(path)
+    const problems: string[] = sm.diagnostics.map(diagnostic => {
+      if (diagnostic.severity == "error") errors++
+      else warnings++
+      return `${path}:${diagnostic.line}:${diagnostic.column} ${diagnostic.severity} ${diagnostic.message}`
+    })
+    const music = sm.properties.MUSIC
+    if (!music) {
+      warnings++
+      problems.push(`${path} warn No music file is set`)
+    } else if (!(await exists(join(dirname(path), music)))) {
+      errors++
+      problems.push(`${path} error Music file ${music} doesn't exist`)
+    }
+    if (getCharts(sm).length == 0) {
+      warnings++
+      problems.push(`${path} warn Simfile has no charts`)
+    }
+    problems.forEach(problem => console.log(problem))
+  }
+  console.log(
+    `${errors} error${errors == 1 ? "" : "s"}, ${warnings} warning${
+      warnings == 1 ? "" : "s"
+    }`
+  )
+  return errors > 0 ? 1 : 0
+}
+
+async function format({ paths, flags }: CommandArgs) {
+  const files = await findSimfiles(paths)
+  if (!flags.write && !flags.check && files.length != 1) {
+    console.error("Use --write or --check to format more than one file")
+    return 2
+  }
+  let unformatted = 0
+  for (const path of files) {
+    const type = getSimfileType(path)
+    if (!type) {
+      console.error(`${path}: not an .sm or .ssc file`)
+      return 2
+    }
+    const data = await readFile(path, "utf-8")
+    const formatted = (await loadSimfile(path)).serialize(type)
+    if (flags.check) {
+      if (data != formatted) {
+        unformatted++
+        console.log(path)
+      }
+      continue
+    }
+    if (flags.write) {
+      if (data != formatted) await writeFile(path, formatted)
+      continue
+    }
+    process.stdout.write(formatted)
+  }
+  return unformatted > 0 ? 1 : 0
+}
+
+async function stats({ paths, flags }: CommandArgs) {
+  const results = []
+  for (const path of await findSimfiles(paths)) {
+    const sm = await loadSimfile(path)
+    for (const chart of getCharts(sm)) {
+      const parser = chart.gameType.parser
+      const notedata = chart.getNotedata()
+      const npsGraph = parser.getNPSGraph(notedata, chart.timingData)
+      results.push({
+        file: path,
+        title: sm.properties.TITLE ?? "",
+        gameType: chart.gameType.id,
+        difficulty: chart.difficulty,
+        meter: chart.meter,
+        stats: parser.getStats(notedata),
+        peakNPS: roundDigit(Math.max(0, ...npsGraph), 2),
+        length: roundDigit(chart.getLastSecond(), 2),
+      })
+    }
+  }
+  if (flags.json) {
+    console.log(JSON.stringify(results, null, 2))
+    return 0
+  }
+  for (const result of results) {
+    console.log(
+      `${result.file} - ${result.gameType} ${result.difficulty} ${result.meter}`
+    )
+    console.log(
+      "  " +
+        Object.entries(result.stats)
+          .map(([name, count]) => `${name}: ${count}`)
+          .join(", ")
+    )
+    console.log(`  Peak NPS: ${result.peakNPS}, Length: ${result.length}s`)
+  }
+  return 0
+}
+
+async function convert({ paths, flags }: CommandArgs) {
+  const to = flags.to
+  if (to != "sm" && to != "ssc") {
+    console.error("Specify the output type with --to sm or --to ssc")
+    return 2
+  }
+  if (flags.out && paths.length != 1) {
+    console.error("--out can only be used with a single file")
+    return 2
+  }
+  let failed = false
+  for (const path of await findSimfiles(paths)) {
+    const sm = await loadSimfile(path)
+    const baseName = basename(path, extname(path))
+    const outPath =
+      typeof flags.out == "string"
+        ? resolve(flags.out)
+        : join(dirname(path), baseName + "." + to)
+    if (resolve(outPath) == resolve(path)) {
+      console.error(`${path}: already an .${to} file`)
+      failed = true
+      continue
+    }
+    const files =
+      to == "sm" && sm.usesChartTiming()
+        ? simfileToLegacySM(sm, basename(outPath, extname(outPath)))
+        : { files: [{ fileName: basename(outPath), data: sm.serialize(to) }] }
+    if ("warnings" in files)
+      files.warnings.forEach(warning => console.log(`${path}: ${warning}`))
+    else if (to == "sm" && sm.requiresSSC())
+      console.log(`${path}: Some properties can't be stored in an .sm`)
+    for (const file of files.files) {
+      const filePath = join(dirname(outPath), file.fileName)
+      if (!flags.force && (await exists(filePath))) {
+        console.error(`${filePath} already exists, use --force to overwrite`)
+        failed = true
+        continue
+      }
+      await writeFile(filePath, file.data)
+      console.log(`Wrote ${filePath}`)
+    }
+  }
+  return failed ? 1 : 0
+}
+
+async function parity({ paths }: CommandArgs) {
+  for (const path of await findSimfiles(paths)) {
+    const sm = await loadSimfile(path)
+    for (const chart of getCharts(sm)) {
+      if (!ParityGenerator.isSupported(chart.gameType.id)) continue
+      new ParityGenerator(chart, chart.gameType.id).analyze()
+      console.log(`${path} - ${getChartLabel(chart)}`)
+      const rows = new Map<number, string[]>()
+      for (const note of chart.getNotedata()) {
+        if (note.parity === undefined) continue
+        if (!rows.has(note.beat))
+          rows.set(note.beat, new Array(chart.gameType.numCols).fill("."))
+        rows.get(note.beat)![note.col] = note.parity
+      }
+      for (const [beat, row] of rows)
+        console.log(
+          `  ${roundDigit(beat, 3).toFixed(3).padStart(9)} ${row.join("")}`
+        )
+    }
+  }
+  return 0
+}
+
+export const COMMANDS: Record<string, Command> = {
+  validate: {
+    usage: "validate <paths...>",
+    description:
+      "Reports parse problems, charts that failed to load and missing music files",
+    run: validate,
+  },
+  format: {
+    usage: "format <paths...> [--write | --check]",
+    description:
+      "Rewrites simfiles in the editor's format. Prints the result for a single file unless --write is given",
+    run: format,
+  },
+  stats: {
+    usage: "stats <paths...> [--json]",
+    description: "Prints note counts, peak NPS and length of every chart",
+    run: stats,
+  },
+  convert: {
+    usage: "convert <paths...> --to <sm|ssc> [--out <file>] [--force]",
+    description:
+      "Converts between .sm and .ssc. Charts with their own timing are split into one .sm per chart",
+    run: convert,
+  },
+  parity: {
+    usage: "parity <paths...>",
+    description:
+      "Prints the generated foot parity of every chart with a supported game type",
+    run: parity,
+  },
+}
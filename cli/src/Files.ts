@@ -0,0 +1,64 @@
+import { readFile, readdir, stat } from "fs/promises"
+import { basename, extname, join } from "path"
+import { Simfile } from "../../app/src/chart/sm/Simfile"
+
+/**
+ * Expands the given paths into simfiles. Folders are searched recursively.
+ * Like StepMania, an .sm is skipped if an .ssc with the same name sits next
+ * to it.
+ *
+ * @export
+ * @param {string[]} paths
+ * @return {*}  {Promise<string[]>}
+ */
+export async function findSimfiles(paths: string[]): Promise<string[]> {
+  const files: string[] = []
+  for (const path of paths) {
+    const info = await stat(path)
+    if (!info.isDirectory()) {
+      files.push(path)
+      continue
+    }
+    const entries = await readdir(path, { withFileTypes: true })
+    const names = entries.map(entry => entry.name)
+    for (const entry of entries) {
+      const entryPath = join(path, entry.name)
+      if (entry.isDirectory()) {
+        files.push(...(await findSimfiles([entryPath])))
+        continue
+      }
+      const ext = extname(entry.name).toLowerCase()
+      if (ext == ".ssc") files.push(entryPath)
+      if (
+        ext == ".sm" &&
+        !names.some(
+          name =>
+            name.toLowerCase() ==
+            basename(entry.name, extname(entry.name)).toLowerCase() + ".ssc"
+        )
+      )
+        files.push(entryPath)
+    }
+  }
+  return files
+}
+
+/**
+ * Loads a simfile from disk.
+ *
+ * @export
+ * @param {string} path
+ * @return {*}  {Promise<Simfile>}
+ */
+export async function loadSimfile(path: string): Promise<Simfile> {
+  const data = await readFile(path, "utf-8")
+  const sm = new Simfile(new File([data], basename(path).toLowerCase()))
+  await sm.loaded
+  return sm
+}
+
+export function getSimfileType(path: string): "sm" | "ssc" | undefined {
+  const ext = extname(path).toLowerCase()
+  if (ext == ".sm") return "sm"
+  if (ext == ".ssc") return "ssc"
+}
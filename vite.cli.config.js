@@ -0,0 +1,17 @@
+import { defineConfig } from "vite"
+
+// Builds the command line toolkit into build/cli/smeditor.js. Node 20 is the
+// first version with a global File, which Simfile is loaded from
+export default defineConfig({
+  build: {
+    ssr: "cli/src/CLI.ts",
+    outDir: "build/cli",
+    target: "node20",
+    emptyOutDir: true,
+    rollupOptions: {
+      output: {
+        entryFileNames: "smeditor.js",
+      },
+    },
+  },
+})